@@ -11,6 +11,8 @@ import NotFound from "./pages/NotFound";
 import CalendarPage from "./pages/Calendar";
 import PPTPage from "./pages/PPT";
 import ImagesPage from "./pages/Images";
+import Documents from "./pages/Documents";
+import Shared from "./pages/Shared";
 
 const queryClient = new QueryClient();
 
@@ -22,14 +24,16 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Home />} />
-          <Route path="/chat" element={<Chat />} />
+          <Route path="/chat/:id?" element={<Chat />} />
           <Route path="/history" element={<History />} />
+          <Route path="/documents" element={<Documents />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/calendar" element={<CalendarPage />} />
-          <Route path="/ppt" element={<PPTPage />} />
+          <Route path="/ppt/:id?" element={<PPTPage />} />
           {/* Placeholder routes - coming soon pages */}
           <Route path="/video" element={<Home />} />
-          <Route path="/images" element={<ImagesPage />} />
+          <Route path="/images/:id?" element={<ImagesPage />} />
+          <Route path="/share/:token" element={<Shared />} />
           <Route path="/settings" element={<Home />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
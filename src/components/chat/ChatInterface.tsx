@@ -1,13 +1,39 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, Loader2, Paperclip, Sparkles, FileText, X } from "lucide-react";
+import { Send, Loader2, Paperclip, Sparkles, FileText, X, Library, Square } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import MessageBubble from "./MessageBubble";
+import MessageBubble, { type Citation } from "./MessageBubble";
 import FileUpload from "./FileUpload";
 import VoiceRecorder from "./VoiceRecorder";
+import DocumentPicker from "./DocumentPicker";
+import ModelPicker, { type GenerationSettings } from "./ModelPicker";
+import PersonaPicker from "./PersonaPicker";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
+import { fetchExtractedTexts, isDocumentIndexed, type DocumentAnalysis, type LibraryDocumentSummary } from "@/lib/documents";
+import { buildAttachmentContext } from "@/lib/attachmentContext";
+import {
+  IMAGE_PART_TYPES,
+  MAX_IMAGE_PARTS,
+  MAX_IMAGE_PART_BYTES,
+  MAX_MESSAGE_TEXT_LENGTH,
+  dataUrlByteSize,
+  windowHistory,
+  type ContentPart,
+  type MessageContent,
+} from "@/lib/chatContent";
+import { DEFAULT_CHAT_MODEL, DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, isChatModel } from "@/lib/chatModels";
+import type { Persona } from "@/lib/personas";
+import {
+  buildPath,
+  clearBranch,
+  selectBranch,
+  selectionForLeaf,
+  siblingPosition,
+  type BranchSelection,
+} from "@/lib/messageTree";
 
 interface UploadedFile {
   name: string;
@@ -20,29 +46,68 @@ interface UploadedFile {
     subtopics: string[];
     summary: string;
   };
+  extractedText?: string;
+  documentId?: string;
 }
 
 interface Message {
+  id: string;
+  parentId: string | null;
   role: "user" | "assistant";
   content: string;
   files?: UploadedFile[];
   audioContent?: string;
+  citations?: Citation[];
+  model?: string;
 }
 
 interface ChatInterfaceProps {
-  conversationId: string;
+  conversationId: string | null;
+  focusMessageId?: string | null;
   voiceEnabled?: boolean;
+  onConversationCreated?: (id: string) => void;
 }
 
-const ChatInterface = ({ conversationId, voiceEnabled = false }: ChatInterfaceProps) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+// Upper bound on document text carried into the chat context for follow-up questions
+const MAX_DOCUMENT_CONTEXT_CHARS = 30000;
+
+// Images from this send that can go to the model directly; files reloaded from history have no data URL
+const imagePartFiles = (files?: UploadedFile[]) =>
+  (files ?? [])
+    .filter(f =>
+      (IMAGE_PART_TYPES as readonly string[]).includes(f.type) &&
+      f.content.startsWith("data:") &&
+      dataUrlByteSize(f.content) <= MAX_IMAGE_PART_BYTES
+    )
+    .slice(0, MAX_IMAGE_PARTS);
+
+// Attachments are stored without their data URLs; only metadata, analysis and the indexed document survive a reload
+const toStoredFiles = (files?: UploadedFile[]) =>
+  files?.map(({ name, size, type, analysis, documentId }) => ({ name, size, type, analysis, documentId })) ?? null;
+
+const ChatInterface = ({ conversationId, focusMessageId = null, voiceEnabled = false, onConversationCreated }: ChatInterfaceProps) => {
+  // Every message of the conversation, including branches that aren't shown
+  const [messageTree, setMessageTree] = useState<Message[]>([]);
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
+  const messages = useMemo(() => buildPath(messageTree, branchSelection), [messageTree, branchSelection]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [showFileUpload, setShowFileUpload] = useState(false);
-  const [pdfContext, setPdfContext] = useState<string | null>(null);
+  const [showDocumentPicker, setShowDocumentPicker] = useState(false);
+  const [documentContext, setDocumentContext] = useState<string | null>(null);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({
+    model: DEFAULT_CHAT_MODEL,
+    temperature: DEFAULT_TEMPERATURE,
+    maxTokens: DEFAULT_MAX_TOKENS,
+  });
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const createdConversationRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   const scrollToBottom = () => {
@@ -50,13 +115,101 @@ const ChatInterface = ({ conversationId, voiceEnabled = false }: ChatInterfacePr
   };
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (highlightedMessageId) {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: "center" });
+    } else {
+      scrollToBottom();
+    }
+  }, [messages, highlightedMessageId]);
 
   useEffect(() => {
-    setMessages([]);
-    setPdfContext(null);
-  }, [conversationId]);
+    // A conversation created by our own first send already has its messages in state. That only
+    // holds for the navigation the send triggers, so the ref is cleared on every change.
+    const justCreated = !!conversationId && conversationId === createdConversationRef.current;
+    createdConversationRef.current = null;
+    if (justCreated) return;
+
+    setMessageTree([]);
+    setBranchSelection({});
+    setDocumentContext(null);
+    setPersonaId(null);
+    setHighlightedMessageId(null);
+    if (!conversationId) return;
+
+    let cancelled = false;
+    const loadMessages = async () => {
+      setIsLoadingHistory(true);
+      try {
+        const [{ data, error }, { data: conversation }] = await Promise.all([
+          supabase
+            .from('messages')
+            .select('*')
+            .eq('conversation_id', conversationId)
+            .order('created_at', { ascending: true }),
+          supabase
+            .from('conversations')
+            .select('persona_id, current_leaf_id')
+            .eq('id', conversationId)
+            .maybeSingle(),
+        ]);
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        setPersonaId(conversation?.persona_id ?? null);
+
+        const loaded: Message[] = (data || []).map(row => ({
+          id: row.id,
+          parentId: row.parent_id,
+          role: row.role as Message["role"],
+          content: row.content,
+          files: (row.files as Omit<UploadedFile, "content">[] | null)?.map(f => ({ ...f, content: "" })),
+          citations: (row.citations as unknown as Citation[] | null) ?? undefined,
+          model: row.model ?? undefined,
+        }));
+
+        // Attachments without an analysis are sent as text, which lives on their library document
+        const textDocumentIds = [...new Set(
+          loaded.flatMap(m => m.files?.filter(f => !f.analysis && f.documentId).map(f => f.documentId as string) ?? [])
+        )];
+        try {
+          const texts = await fetchExtractedTexts(textDocumentIds);
+          loaded.forEach(m => {
+            m.files = m.files?.map(f => (f.documentId && texts.has(f.documentId) ? { ...f, extractedText: texts.get(f.documentId) } : f));
+          });
+        } catch (error) {
+          console.error('Error loading attachment text:', error);
+        }
+        if (cancelled) return;
+
+        setMessageTree(loaded);
+        const selection = conversation?.current_leaf_id ? selectionForLeaf(loaded, conversation.current_leaf_id) : {};
+        // A message opened from search may sit on another branch; its path wins over the saved one
+        if (focusMessageId && loaded.some(m => m.id === focusMessageId)) {
+          setBranchSelection({ ...selection, ...selectionForLeaf(loaded, focusMessageId) });
+          setHighlightedMessageId(focusMessageId);
+        } else {
+          setBranchSelection(selection);
+        }
+      } catch (error) {
+        console.error('Error loading messages:', error);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Failed to load conversation",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setIsLoadingHistory(false);
+      }
+    };
+
+    loadMessages();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, focusMessageId, toast]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -82,7 +235,71 @@ const ChatInterface = ({ conversationId, voiceEnabled = false }: ChatInterfacePr
     }
   };
 
-  const streamChat = async (userMessage: Message) => {
+  const ensureConversation = async (userId: string, firstMessage: string) => {
+    if (conversationId) return conversationId;
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert([{
+        user_id: userId,
+        title: firstMessage.trim().substring(0, 100) || 'New Conversation',
+        type: 'chat',
+        persona_id: personaId,
+      }])
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    createdConversationRef.current = data.id;
+    onConversationCreated?.(data.id);
+    return data.id;
+  };
+
+  const saveMessage = async (activeConversationId: string, userId: string, message: Message) => {
+    const { error } = await supabase
+      .from('messages')
+      .insert([{
+        id: message.id,
+        parent_id: message.parentId,
+        conversation_id: activeConversationId,
+        user_id: userId,
+        role: message.role,
+        content: message.content,
+        files: toStoredFiles(message.files),
+        citations: (message.citations ?? null) as unknown as Json,
+        model: message.model ?? null,
+      }]);
+
+    if (error) throw error;
+  };
+
+  // Remembers which branch was on screen so reopening the conversation shows it again
+  const saveCurrentLeaf = async (activeConversationId: string, leafId: string) => {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ current_leaf_id: leafId })
+      .eq('id', activeConversationId);
+    if (error) console.error('Error saving current branch:', error);
+  };
+
+  // New messages are added to the tree and become the selected branch at their level
+  const addMessage = (message: Message) => {
+    setHighlightedMessageId(null);
+    setMessageTree(prev => [...prev, message]);
+    setBranchSelection(prev => selectBranch(prev, message));
+  };
+
+  const updateMessage = (id: string, patch: Partial<Message>) => {
+    setMessageTree(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  // history is the path before userMessage; regenerating reuses an already saved user message
+  const streamChat = async (
+    userMessage: Message,
+    history: Message[],
+    { saveUserMessage = true }: { saveUserMessage?: boolean } = {}
+  ) => {
     const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
     
     const { data: { session }, error: sessionError } = await supabase.auth.getSession();
@@ -94,43 +311,114 @@ const ChatInterface = ({ conversationId, voiceEnabled = false }: ChatInterfacePr
       });
       return;
     }
+
+    // Only the send that creates the conversation gets it a generated title
+    const startsConversation = !conversationId;
+    let activeConversationId: string | null = null;
+    try {
+      activeConversationId = await ensureConversation(session.user.id, userMessage.content);
+      if (saveUserMessage) {
+        await saveMessage(activeConversationId, session.user.id, userMessage);
+      }
+    } catch (error) {
+      console.error('Error saving message:', error);
+      toast({
+        title: "Not Saved",
+        description: "This conversation could not be saved to your history.",
+        variant: "destructive",
+      });
+    }
     
     // Build rich context with file analysis
     let messageContent = userMessage.content;
     let systemContext = "";
     
     if (userMessage.files && userMessage.files.length > 0) {
-      const fileAnalyses = userMessage.files.map(f => {
-        if (f.analysis) {
-          return `[Document: ${f.name}]
+      const fileAnalyses = userMessage.files.filter(f => f.analysis).map(f => `[Document: ${f.name}]
 Topic: ${f.analysis.topic}
 Subtopics: ${f.analysis.subtopics.join(', ')}
-Summary: ${f.analysis.summary}`;
-        }
-        return `[Attached file: ${f.name}]`;
-      }).join('\n\n');
-      
-      systemContext = `The user has uploaded the following document(s):\n${fileAnalyses}\n\nProvide advanced insights based on this context.`;
+Summary: ${f.analysis.summary}`).join('\n\n');
+
+      if (fileAnalyses) {
+        systemContext = `The user has uploaded the following document(s):\n${fileAnalyses}\n\nProvide advanced insights based on this context.`;
+      }
     }
 
-    // Include PDF context for follow-up questions
-    if (pdfContext) {
-      systemContext = `${pdfContext}\n\n${systemContext}`;
+    // Images on this message are sent to the model as content parts
+    const imageFiles = imagePartFiles(userMessage.files);
+    const content: MessageContent = imageFiles.length > 0
+      ? [
+          { type: "text", text: messageContent },
+          ...imageFiles.map((f): ContentPart => ({ type: "image_url", image_url: { url: f.content } })),
+        ]
+      : messageContent;
+    const attachedImages = userMessage.files?.filter(f => f.type.startsWith("image/") && f.content) ?? [];
+    if (attachedImages.length > imageFiles.length) {
+      toast({
+        title: "Some Images Sent as Descriptions",
+        description: `Up to ${MAX_IMAGE_PARTS} PNG, JPEG, WebP or GIF images under 5MB go to the model directly; the rest are described in text.`,
+      });
     }
-    
+
+    // Analyzed documents reach the model through their summary, the document context and retrieval.
+    // Everything else is sent as extracted text, newest attachments first so they win the budget.
+    // Earlier files whose text isn't available (deleted from the library) are left out rather than reported empty.
+    const otherAttachments = [
+      ...(userMessage.files?.filter(f => !f.analysis && !imageFiles.includes(f)) ?? []),
+      ...[...history].reverse().flatMap(m => m.files?.filter(f => !f.analysis && f.extractedText) ?? []),
+    ];
+    if (otherAttachments.length > 0) {
+      const { context, truncatedFiles } = buildAttachmentContext(otherAttachments);
+      systemContext = `${systemContext ? `${systemContext}\n\n` : ""}Contents of the user's attached files:\n${context}`;
+      if (truncatedFiles.length > 0) {
+        toast({
+          title: "Large Attachments Shortened",
+          description: `Only part of ${truncatedFiles.join(", ")} fits in the conversation context.`,
+        });
+      }
+    }
+
+    // Include document context for follow-up questions
+    if (documentContext) {
+      systemContext = `${documentContext}\n\n${systemContext}`;
+    }
+
+    // Captured now so a picker change mid-stream doesn't relabel this answer
+    const { model } = generationSettings;
+
+    // Every indexed document attached so far in this conversation is searchable by the chat function
+    const documentIds = [...new Set(
+      [...history, userMessage].flatMap(m => m.files?.map(f => f.documentId).filter(Boolean) ?? [])
+    )];
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let assistantContent = "";
+    let citations: Citation[] | undefined;
+
+    // Select the answer before it exists so a regenerated reply replaces the old one on screen right away
+    const assistantMessage: Message = { id: crypto.randomUUID(), parentId: userMessage.id, role: "assistant", content: "", model };
+    setBranchSelection(prev => selectBranch(prev, assistantMessage));
+
     try {
       const resp = await fetch(CHAT_URL, {
         method: "POST",
+        signal: controller.signal,
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
         body: JSON.stringify({ 
           messages: [
-            ...messages.map(m => ({ role: m.role, content: m.content })), 
-            { role: userMessage.role, content: messageContent }
+            ...windowHistory(history).map(m => ({ role: m.role, content: m.content })),
+            { role: userMessage.role, content }
           ],
           systemContext,
+          documentIds: documentIds.length > 0 ? documentIds : undefined,
+          personaId: personaId ?? undefined,
+          model,
+          temperature: generationSettings.temperature,
+          max_tokens: generationSettings.maxTokens,
         }),
       });
 
@@ -155,7 +443,6 @@ Summary: ${f.analysis.summary}`;
       const decoder = new TextDecoder();
       let textBuffer = "";
       let streamDone = false;
-      let assistantContent = "";
 
       while (!streamDone) {
         const { done, value } = await reader.read();
@@ -180,18 +467,19 @@ Summary: ${f.analysis.summary}`;
 
           try {
             const parsed = JSON.parse(jsonStr);
+            // The chat function sends the retrieved excerpts before the model's first token
+            if (parsed.citations) {
+              citations = parsed.citations as Citation[];
+              continue;
+            }
             const content = parsed.choices?.[0]?.delta?.content as string | undefined;
             if (content) {
+              if (!assistantContent) {
+                addMessage({ ...assistantMessage, content, citations });
+              } else {
+                updateMessage(assistantMessage.id, { content: assistantContent + content, citations });
+              }
               assistantContent += content;
-              setMessages((prev) => {
-                const last = prev[prev.length - 1];
-                if (last?.role === "assistant") {
-                  return prev.map((m, i) => 
-                    i === prev.length - 1 ? { ...m, content: assistantContent } : m
-                  );
-                }
-                return [...prev, { role: "assistant", content: assistantContent }];
-              });
             }
           } catch {
             textBuffer = line + "\n" + textBuffer;
@@ -200,39 +488,178 @@ Summary: ${f.analysis.summary}`;
         }
       }
 
-      if (voiceEnabled && assistantContent) {
-        const audioContent = await generateVoice(assistantContent);
-        if (audioContent) {
-          setMessages((prev) => {
-            const last = prev[prev.length - 1];
-            if (last?.role === "assistant") {
-              return prev.map((m, i) => 
-                i === prev.length - 1 ? { ...m, audioContent } : m
-              );
-            }
-            return prev;
-          });
+    } catch (error) {
+      // Stopping aborts the fetch mid-stream; whatever arrived so far is kept below
+      if (!controller.signal.aborted) {
+        console.error("Stream error:", error);
+        toast({
+          title: "Error",
+          description: "Failed to get response from AI.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+    }
+
+    if (!assistantContent) {
+      setBranchSelection(prev => clearBranch(prev, assistantMessage));
+    }
+
+    if (activeConversationId) {
+      let leafId = userMessage.id;
+      if (assistantContent) {
+        try {
+          await saveMessage(activeConversationId, session.user.id, { ...assistantMessage, content: assistantContent, citations });
+          leafId = assistantMessage.id;
+        } catch (error) {
+          console.error('Error saving assistant message:', error);
         }
       }
-    } catch (error) {
-      console.error("Stream error:", error);
-      toast({
-        title: "Error",
-        description: "Failed to get response from AI.",
-        variant: "destructive",
-      });
+      await saveCurrentLeaf(activeConversationId, leafId);
+
+      // The first exchange replaces the placeholder title with a generated one; runs in the background
+      if (startsConversation && leafId === assistantMessage.id) {
+        supabase.functions
+          .invoke('summarize-conversation', { body: { conversationId: activeConversationId } })
+          .then(({ error }) => {
+            if (error) console.error('Error summarizing conversation:', error);
+          });
+      }
+    }
+
+    if (voiceEnabled && assistantContent && !controller.signal.aborted) {
+      const audioContent = await generateVoice(assistantContent);
+      if (audioContent) {
+        updateMessage(assistantMessage.id, { audioContent });
+      }
     }
   };
 
-  const handleFileAnalyzed = (file: UploadedFile, analysis: { topic: string; subtopics: string[]; summary: string }) => {
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Asks the same question again; the new answer becomes a sibling of the old one
+  const handleRegenerate = async () => {
+    const lastIndex = messages.length - 1;
+    const question = messages[lastIndex - 1];
+    if (isLoading || messages[lastIndex]?.role !== "assistant" || question?.role !== "user") return;
+
+    setIsLoading(true);
+    try {
+      await streamChat(question, messages.slice(0, lastIndex - 1), { saveUserMessage: false });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // An edited question is a sibling of the original, so the earlier branch stays reachable
+  const handleEditMessage = async (index: number, content: string) => {
+    const original = messages[index];
+    if (isLoading || original?.role !== "user" || !content.trim()) return;
+
+    const history = messages.slice(0, index);
+    const editedMessage: Message = {
+      ...original,
+      id: crypto.randomUUID(),
+      content: content.trim(),
+      citations: undefined,
+      audioContent: undefined,
+    };
+
+    addMessage(editedMessage);
+    setIsLoading(true);
+    try {
+      await streamChat(editedMessage, history);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSwitchBranch = (message: Message, offset: number) => {
+    const { siblings, index } = siblingPosition(messageTree, message);
+    const target = siblings[index + offset];
+    if (isLoading || !target) return;
+
+    const selection = selectBranch(branchSelection, target);
+    setBranchSelection(selection);
+
+    const path = buildPath(messageTree, selection);
+    const activeConversationId = conversationId ?? createdConversationRef.current;
+    if (activeConversationId && path.length > 0) {
+      saveCurrentLeaf(activeConversationId, path[path.length - 1].id);
+    }
+  };
+
+  const handleFileAnalyzed = (
+    file: UploadedFile,
+    analysis: { topic: string; subtopics: string[]; summary: string },
+    extractedText?: string,
+    indexed?: boolean
+  ) => {
     // Update file with analysis
     setUploadedFiles(prev => prev.map(f => 
-      f.name === file.name ? { ...f, analysis } : f
+      f.name === file.name ? { ...f, analysis, extractedText } : f
     ));
     
-    // Store PDF context for follow-up questions
-    if (file.type === 'application/pdf') {
-      setPdfContext(`PDF Document Context - Topic: ${analysis.topic}\nSubtopics: ${analysis.subtopics.join(', ')}\nSummary: ${analysis.summary}`);
+    // Store document context for follow-up questions
+    let context = `Document Context (${file.name}) - Topic: ${analysis.topic}\nSubtopics: ${analysis.subtopics.join(', ')}\nSummary: ${analysis.summary}`;
+    // Indexed documents are searched per question; only fall back to raw text when indexing failed
+    if (extractedText && !indexed) {
+      const excerpt = extractedText.length > MAX_DOCUMENT_CONTEXT_CHARS
+        ? `${extractedText.substring(0, MAX_DOCUMENT_CONTEXT_CHARS)}\n[Remaining content omitted]`
+        : extractedText;
+      context += `\n\nDocument text (each page, slide, sheet or section starts with a bracketed marker; cite these when answering):\n${excerpt}`;
+    }
+    setDocumentContext(context);
+  };
+
+  // Text is filled in on messages too, in case the file was sent before extraction finished
+  const handleFileExtracted = (file: UploadedFile, extractedText: string) => {
+    const withText = (f: UploadedFile) =>
+      f.name === file.name && f.documentId === file.documentId ? { ...f, extractedText } : f;
+    setUploadedFiles(prev => prev.map(withText));
+    setMessageTree(prev => prev.map(m => (m.files ? { ...m, files: m.files.map(withText) } : m)));
+  };
+
+  // Library documents were uploaded and analyzed before; attach them as-is
+  const handleAttachDocument = async (document: LibraryDocumentSummary) => {
+    setShowDocumentPicker(false);
+    const analysis = (document.analysis as unknown as DocumentAnalysis | null) ?? undefined;
+    const file: UploadedFile = {
+      name: document.name,
+      size: document.size,
+      type: document.type,
+      content: "",
+      analysis,
+      documentId: document.id,
+    };
+    setUploadedFiles(prev => [...prev.filter(f => f.name !== file.name), file]);
+
+    const fetchExtractedText = async () => {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('extracted_text')
+        .eq('id', document.id)
+        .single();
+      if (error) throw error;
+      return data.extracted_text ?? undefined;
+    };
+
+    try {
+      // Images and text files carry their extracted text instead of an analysis
+      if (!analysis) {
+        const extractedText = await fetchExtractedText();
+        if (extractedText) handleFileExtracted(file, extractedText);
+        return;
+      }
+
+      const indexed = await isDocumentIndexed(document.id);
+      const extractedText = indexed ? undefined : await fetchExtractedText();
+      handleFileAnalyzed(file, analysis, extractedText, indexed);
+    } catch (error) {
+      console.error('Error attaching document:', error);
     }
   };
 
@@ -240,23 +667,33 @@ Summary: ${f.analysis.summary}`;
     if ((!input.trim() && uploadedFiles.length === 0) || isLoading) return;
 
     const userMessage: Message = { 
+      id: crypto.randomUUID(),
+      parentId: messages[messages.length - 1]?.id ?? null,
       role: "user", 
       content: input || "Please analyze the attached files in depth",
       files: uploadedFiles.length > 0 ? [...uploadedFiles] : undefined,
     };
-    setMessages((prev) => [...prev, userMessage]);
+    addMessage(userMessage);
     setInput("");
     setUploadedFiles([]);
     setShowFileUpload(false);
     setIsLoading(true);
 
     try {
-      await streamChat(userMessage);
+      await streamChat(userMessage, messages);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Picking a persona also switches to its default model, which can still be changed afterwards
+  const handlePersonaChange = (persona: Persona | null) => {
+    setPersonaId(persona?.id ?? null);
+    if (persona?.default_model && isChatModel(persona.default_model)) {
+      setGenerationSettings(prev => ({ ...prev, model: persona.default_model as GenerationSettings["model"] }));
+    }
+  };
+
   const handleVoiceTranscript = (text: string) => {
     setInput(text);
   };
@@ -279,7 +716,11 @@ Summary: ${f.analysis.summary}`;
     <div className="flex flex-1 flex-col h-full bg-gradient-to-b from-background to-muted/20">
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto">
-        {messages.length === 0 ? (
+        {isLoadingHistory ? (
+          <div className="flex h-full items-center justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : messages.length === 0 ? (
           <div className="flex h-full items-center justify-center p-4">
             <div className="text-center space-y-8 max-w-2xl w-full">
               {/* Hero Section */}
@@ -312,15 +753,15 @@ Summary: ${f.analysis.summary}`;
                 ))}
               </div>
 
-              {/* PDF Context Indicator */}
-              {pdfContext && (
+              {/* Document Context Indicator */}
+              {documentContext && (
                 <div className="flex items-center justify-center gap-2 text-sm text-primary">
                   <FileText className="h-4 w-4" />
-                  <span>PDF context active - ask follow-up questions</span>
+                  <span>Document context active - ask follow-up questions</span>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setPdfContext(null)}
+                    onClick={() => setDocumentContext(null)}
                     className="h-6 w-6 p-0"
                   >
                     <X className="h-3 w-3" />
@@ -332,9 +773,29 @@ Summary: ${f.analysis.summary}`;
         ) : (
           <div className="max-w-4xl mx-auto px-4 py-6">
             <div className="space-y-6">
-              {messages.map((message, index) => (
-                <MessageBubble key={index} message={message} />
-              ))}
+              {messages.map((message, index) => {
+                const { siblings, index: branchIndex } = siblingPosition(messageTree, message);
+                return (
+                  <MessageBubble
+                    key={message.id}
+                    message={message}
+                    highlighted={message.id === highlightedMessageId}
+                    branch={siblings.length > 1 ? {
+                      index: branchIndex,
+                      count: siblings.length,
+                      disabled: isLoading,
+                      onPrevious: () => handleSwitchBranch(message, -1),
+                      onNext: () => handleSwitchBranch(message, 1),
+                    } : undefined}
+                    onEdit={!isLoading && message.role === "user" ? (content) => handleEditMessage(index, content) : undefined}
+                    onRegenerate={
+                      !isLoading && message.role === "assistant" && index === messages.length - 1
+                        ? handleRegenerate
+                        : undefined
+                    }
+                  />
+                );
+              })}
               {isLoading && (
                 <div className="flex items-center gap-3">
                   <div className="h-8 w-8 rounded-lg bg-gradient-to-br from-primary to-secondary flex items-center justify-center">
@@ -356,15 +817,15 @@ Summary: ${f.analysis.summary}`;
       {/* Input Area - Fixed at Bottom */}
       <div className="sticky bottom-0 border-t border-border bg-background/95 backdrop-blur-lg p-4">
         <div className="max-w-4xl mx-auto space-y-3">
-          {/* PDF Context Badge */}
-          {pdfContext && messages.length > 0 && (
+          {/* Document Context Badge */}
+          {documentContext && messages.length > 0 && (
             <div className="flex items-center gap-2 px-3 py-2 bg-primary/10 rounded-xl border border-primary/20">
               <FileText className="h-4 w-4 text-primary" />
-              <span className="text-sm text-primary flex-1">PDF context active</span>
+              <span className="text-sm text-primary flex-1">Document context active</span>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setPdfContext(null)}
+                onClick={() => setDocumentContext(null)}
                 className="h-6 w-6 p-0 hover:bg-primary/20"
               >
                 <X className="h-3 w-3" />
@@ -379,6 +840,7 @@ Summary: ${f.analysis.summary}`;
               onFileUpload={(file) => setUploadedFiles(prev => [...prev, file])}
               onFileRemove={(fileName) => setUploadedFiles(prev => prev.filter(f => f.name !== fileName))}
               onFileAnalyzed={handleFileAnalyzed}
+              onFileExtracted={handleFileExtracted}
             />
           )}
           
@@ -402,6 +864,19 @@ Summary: ${f.analysis.summary}`;
             </div>
           )}
           
+          <div className="flex flex-wrap items-center gap-2">
+            <PersonaPicker
+              personaId={personaId}
+              onPersonaChange={handlePersonaChange}
+              disabled={isLoading || messages.length > 0}
+            />
+            <ModelPicker
+              settings={generationSettings}
+              onSettingsChange={setGenerationSettings}
+              disabled={isLoading}
+            />
+          </div>
+
           {/* Input Row */}
           <div className="flex items-end gap-2">
             <div className="flex gap-1">
@@ -417,9 +892,26 @@ Summary: ${f.analysis.summary}`;
               >
                 <Paperclip className="h-5 w-5" />
               </Button>
+
+              <Button
+                onClick={() => setShowDocumentPicker(true)}
+                variant="ghost"
+                size="icon"
+                className="rounded-full h-10 w-10 shrink-0"
+                title="Attach from document library"
+              >
+                <Library className="h-5 w-5" />
+              </Button>
               
               <VoiceRecorder onTranscript={handleVoiceTranscript} />
             </div>
+
+            <DocumentPicker
+              open={showDocumentPicker}
+              onOpenChange={setShowDocumentPicker}
+              onSelect={handleAttachDocument}
+              attachedIds={uploadedFiles.map(f => f.documentId).filter(Boolean)}
+            />
             
             <div className="flex-1 relative">
               <Textarea
@@ -427,6 +919,7 @@ Summary: ${f.analysis.summary}`;
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
+                maxLength={MAX_MESSAGE_TEXT_LENGTH}
                 placeholder="Ask anything... I'll provide deep, advanced insights"
                 className="min-h-[52px] max-h-[200px] resize-none rounded-2xl border-border bg-muted/50 focus-visible:ring-primary pr-12 py-3.5"
                 disabled={isLoading}
@@ -434,23 +927,31 @@ Summary: ${f.analysis.summary}`;
               />
             </div>
             
-            <Button
-              onClick={handleSend}
-              disabled={(!input.trim() && uploadedFiles.length === 0) || isLoading}
-              size="icon"
-              className={cn(
-                "rounded-full h-12 w-12 shrink-0 transition-all duration-200",
-                "bg-gradient-to-r from-primary to-secondary hover:opacity-90",
-                "text-primary-foreground shadow-lg hover:shadow-xl",
-                (!input.trim() && uploadedFiles.length === 0) && "opacity-50"
-              )}
-            >
-              {isLoading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button
+                onClick={handleStop}
+                size="icon"
+                variant="outline"
+                className="rounded-full h-12 w-12 shrink-0"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                disabled={!input.trim() && uploadedFiles.length === 0}
+                size="icon"
+                className={cn(
+                  "rounded-full h-12 w-12 shrink-0 transition-all duration-200",
+                  "bg-gradient-to-r from-primary to-secondary hover:opacity-90",
+                  "text-primary-foreground shadow-lg hover:shadow-xl",
+                  (!input.trim() && uploadedFiles.length === 0) && "opacity-50"
+                )}
+              >
                 <Send className="h-5 w-5" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
           
           {/* Hint Text */}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { FileText, Image as ImageIcon, Loader2, Search } from "lucide-react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { fetchDocuments, formatFileSize, type DocumentAnalysis, type LibraryDocumentSummary } from "@/lib/documents";
+
+interface DocumentPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (document: LibraryDocumentSummary) => void;
+  attachedIds?: string[];
+}
+
+const DocumentPicker = ({ open, onOpenChange, onSelect, attachedIds = [] }: DocumentPickerProps) => {
+  const [documents, setDocuments] = useState<LibraryDocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadDocuments = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchDocuments();
+        if (!cancelled) setDocuments(data);
+      } catch (error) {
+        console.error('Error loading documents:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadDocuments();
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = normalizedQuery
+    ? documents.filter(doc =>
+        doc.name.toLowerCase().includes(normalizedQuery) ||
+        (doc.analysis as unknown as DocumentAnalysis | null)?.topic?.toLowerCase().includes(normalizedQuery)
+      )
+    : documents;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Attach from Library</DialogTitle>
+          <DialogDescription>Previously uploaded documents are attached without re-uploading or re-analyzing.</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search documents..."
+            className="pl-9"
+          />
+        </div>
+
+        <ScrollArea className="h-80">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              {documents.length === 0 ? "Your library is empty. Uploaded files appear here." : "No matching documents"}
+            </p>
+          ) : (
+            <div className="space-y-1 pr-3">
+              {filtered.map((doc) => {
+                const Icon = doc.type.startsWith('image/') ? ImageIcon : FileText;
+                const isAttached = attachedIds.includes(doc.id);
+                return (
+                  <button
+                    key={doc.id}
+                    disabled={isAttached}
+                    onClick={() => onSelect(doc)}
+                    className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Icon className="h-5 w-5 text-primary shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{doc.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(doc.size)} • {format(new Date(doc.created_at), 'MMM d, yyyy')}
+                        {isAttached && " • Attached"}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentPicker;
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Download, FileJson, FileText, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { EXPORT_OPTIONS, exportConversation, type ExportFormat } from "@/lib/conversationExport";
+
+interface ExportMenuProps {
+  conversationId: string;
+}
+
+const EXPORT_ICONS: Record<ExportFormat, typeof FileText> = {
+  markdown: FileText,
+  pdf: Printer,
+  json: FileJson,
+};
+
+const ExportMenu = ({ conversationId }: ExportMenuProps) => {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportConversation(conversationId, exportFormat);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      toast({ title: "Error", description: "Failed to export conversation", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="rounded-full shrink-0"
+          disabled={isExporting}
+          title="Export conversation"
+        >
+          {isExporting
+            ? <Loader2 className="h-4 w-4 md:h-5 md:w-5 animate-spin" />
+            : <Download className="h-4 w-4 md:h-5 md:w-5" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_OPTIONS.map(({ format, label }) => {
+          const Icon = EXPORT_ICONS[format];
+          return (
+            <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+              <Icon className="h-4 w-4 mr-2" />
+              {label}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -1,8 +1,11 @@
-import { useCallback, useState } from "react";
+import { useState } from "react";
 import { Upload, X, FileText, Image as ImageIcon, Loader2, CheckCircle2, FileType } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { formatFileSize, indexDocument, saveDocument, updateDocumentContent } from "@/lib/documents";
+import { TEXT_FILE_ACCEPT, isExtractableDocument, isImageFile, isTextFile } from "@/lib/fileTypes";
 
 interface UploadedFile {
   name: string;
@@ -15,18 +18,27 @@ interface UploadedFile {
     subtopics: string[];
     summary: string;
   };
+  extractedText?: string;
+  documentId?: string;
 }
 
 interface FileUploadProps {
   onFileUpload: (file: UploadedFile) => void;
   onFileRemove: (fileName: string) => void;
-  onFileAnalyzed?: (file: UploadedFile, analysis: { topic: string; subtopics: string[]; summary: string }) => void;
+  onFileAnalyzed?: (
+    file: UploadedFile,
+    analysis: { topic: string; subtopics: string[]; summary: string },
+    extractedText?: string,
+    indexed?: boolean
+  ) => void;
+  onFileExtracted?: (file: UploadedFile, extractedText: string) => void;
   files: UploadedFile[];
 }
 
-const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileUploadProps) => {
+const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, onFileExtracted, files }: FileUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [processingFiles, setProcessingFiles] = useState<Set<string>>(new Set());
+  const { user } = useAuth();
   const { toast } = useToast();
 
   const processFile = async (file: File) => {
@@ -39,18 +51,34 @@ const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileU
       reader.onload = async (e) => {
         const content = e.target?.result as string;
         
+        // Keep a copy in the document library so it can be attached to later chats
+        let documentId: string | undefined;
+        if (user) {
+          try {
+            documentId = await saveDocument(user.id, file);
+          } catch (err) {
+            console.error('Document library error:', err);
+            toast({
+              title: "Not Saved to Library",
+              description: `${file.name} can be used in this chat but was not added to your documents`,
+              variant: "destructive",
+            });
+          }
+        }
+
         const uploadedFile: UploadedFile = {
           name: file.name,
           size: file.size,
           type: file.type,
           content,
           preview: file.type.startsWith('image/') ? content : undefined,
+          documentId,
         };
 
         onFileUpload(uploadedFile);
 
-        // Analyze PDF files with AI
-        if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+        // Analyze PDF, Word, Excel, PowerPoint and CSV files with AI
+        if (isExtractableDocument(file.name, file.type)) {
           try {
             const { data, error } = await supabase.functions.invoke('analyze-file', {
               body: {
@@ -63,21 +91,65 @@ const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileU
 
             if (error) throw error;
             
+            let indexed = false;
+            if (documentId) {
+              try {
+                await updateDocumentContent(documentId, data?.extractedText ?? null, data?.analysis ?? null);
+                if (data?.pages?.length) {
+                  await indexDocument(documentId, data.pages);
+                  indexed = true;
+                }
+              } catch (err) {
+                console.error('Document indexing error:', err);
+              }
+            }
+
             if (data?.analysis && onFileAnalyzed) {
-              onFileAnalyzed(uploadedFile, data.analysis);
+              onFileAnalyzed(uploadedFile, data.analysis, data.extractedText, indexed);
               toast({
-                title: "PDF Analyzed",
+                title: "Document Analyzed",
                 description: `Topic identified: ${data.analysis.topic}`,
               });
             }
           } catch (err) {
-            console.error('PDF analysis error:', err);
+            console.error('Document analysis error:', err);
             toast({
               title: "Analysis Complete",
               description: "File uploaded successfully",
             });
           }
         }
+        // Images go through vision OCR; text and code files are decoded as-is
+        else if (isImageFile(file.type) || isTextFile(file.name, file.type)) {
+          try {
+            const { data, error } = await supabase.functions.invoke('analyze-file', {
+              body: {
+                fileName: file.name,
+                fileContent: content,
+                fileType: file.type || 'text/plain',
+              },
+            });
+
+            if (error) throw error;
+
+            const extractedText = typeof data?.extractedText === 'string' ? data.extractedText : '';
+            if (extractedText) {
+              onFileExtracted?.(uploadedFile, extractedText);
+              if (documentId) {
+                updateDocumentContent(documentId, extractedText, null).catch(err =>
+                  console.error('Document library error:', err)
+                );
+              }
+            }
+          } catch (err) {
+            console.error('Text extraction error:', err);
+            toast({
+              title: "Could Not Read File",
+              description: `${file.name} is attached, but its contents could not be extracted`,
+              variant: "destructive",
+            });
+          }
+        }
         
         setProcessingFiles(prev => {
           const next = new Set(prev);
@@ -102,13 +174,13 @@ const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileU
     }
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     
     const droppedFiles = Array.from(e.dataTransfer.files);
     droppedFiles.forEach(processFile);
-  }, []);
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
@@ -116,12 +188,6 @@ const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileU
     e.target.value = '';
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
-  };
-
   const getFileIcon = (file: UploadedFile) => {
     if (file.preview) {
       return (
@@ -160,7 +226,7 @@ const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileU
           className="hidden"
           onChange={handleFileSelect}
           multiple
-          accept=".pdf,.doc,.docx,.txt,.csv,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png,.webp,.gif,.zip"
+          accept={`.pdf,.doc,.docx,.csv,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png,.webp,.gif,.zip,${TEXT_FILE_ACCEPT}`}
         />
         <label htmlFor="file-upload" className="cursor-pointer block">
           <div className={`mx-auto mb-3 h-14 w-14 rounded-2xl flex items-center justify-center transition-colors ${
@@ -172,10 +238,10 @@ const FileUpload = ({ onFileUpload, onFileRemove, onFileAnalyzed, files }: FileU
             Drop files here or click to upload
           </p>
           <p className="text-xs text-muted-foreground">
-            PDF, DOC, TXT, CSV, XLS, PPT, Images (JPG, PNG, WebP)
+            PDF, DOC, TXT, CSV, XLS, PPT, JSON, code, Images (JPG, PNG, WebP)
           </p>
           <p className="text-xs text-primary mt-2 font-medium">
-            📄 PDFs will be analyzed for topic extraction & insights
+            📄 PDF, DOCX, XLSX, CSV and PPTX files will be analyzed for topic extraction & insights
           </p>
         </label>
       </div>
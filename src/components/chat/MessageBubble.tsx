@@ -1,10 +1,14 @@
 import { useState } from "react";
-import { User, Bot, FileText, Image as ImageIcon, Copy, Volume2, Check, Pause, Share2 } from "lucide-react";
+import { User, Bot, FileText, Image as ImageIcon, Copy, Volume2, Check, Pause, Share2, BookOpen, RefreshCw, Pencil, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
 import VoicePlayer from "./VoicePlayer";
 import ReactMarkdown from "react-markdown";
+import { MAX_MESSAGE_TEXT_LENGTH } from "@/lib/chatContent";
+import { chatModelLabel } from "@/lib/chatModels";
 
 interface UploadedFile {
   name: string;
@@ -19,24 +23,51 @@ interface UploadedFile {
   };
 }
 
+export interface Citation {
+  index: number;
+  documentId: string;
+  documentName: string;
+  page: number | null;
+  excerpt: string;
+}
+
 interface Message {
+  id: string;
   role: "user" | "assistant";
   content: string;
   files?: UploadedFile[];
   audioContent?: string;
+  citations?: Citation[];
+  model?: string;
+}
+
+// Position among alternative versions of this message (edits or regenerations)
+interface BranchInfo {
+  index: number;
+  count: number;
+  disabled?: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
 }
 
 interface MessageBubbleProps {
   message: Message;
+  branch?: BranchInfo;
+  // Opened from a search result
+  highlighted?: boolean;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
 }
 
-const MessageBubble = ({ message }: MessageBubbleProps) => {
+const MessageBubble = ({ message, branch, highlighted, onEdit, onRegenerate }: MessageBubbleProps) => {
   const isUser = message.role === "user";
   const [copied, setCopied] = useState(false);
   const [isReadingAloud, setIsReadingAloud] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [speechRate, setSpeechRate] = useState(1.0);
   const [showControls, setShowControls] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const { toast } = useToast();
 
   const handleCopy = async () => {
@@ -141,9 +172,21 @@ const MessageBubble = ({ message }: MessageBubbleProps) => {
     }
   };
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setIsEditing(false);
+    if (draft.trim() !== message.content) onEdit?.(draft);
+  };
+
   return (
     <div 
-      className={`flex gap-3 ${isUser ? "justify-end" : "justify-start"}`}
+      id={`message-${message.id}`}
+      className={`flex gap-3 ${isUser ? "justify-end" : "justify-start"} ${highlighted ? "rounded-xl ring-2 ring-primary/40 ring-offset-4 ring-offset-background" : ""}`}
       onMouseEnter={() => setShowControls(true)}
       onMouseLeave={() => setShowControls(false)}
     >
@@ -197,7 +240,33 @@ const MessageBubble = ({ message }: MessageBubbleProps) => {
           )}
           
           {/* Message Content with Markdown */}
-          {isUser ? (
+          {isUser && isEditing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={MAX_MESSAGE_TEXT_LENGTH}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === "Escape") {
+                    setIsEditing(false);
+                  }
+                }}
+                className="min-h-[80px] bg-background text-foreground"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)} className="h-8 text-primary-foreground hover:text-foreground">
+                  Cancel
+                </Button>
+                <Button size="sm" variant="secondary" onClick={submitEdit} disabled={!draft.trim()} className="h-8">
+                  Send
+                </Button>
+              </div>
+            </div>
+          ) : isUser ? (
             <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
           ) : (
             <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3 prose-ul:my-2 prose-ol:my-2 prose-li:my-0.5 prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-muted prose-pre:p-3 prose-pre:rounded-lg">
@@ -205,6 +274,35 @@ const MessageBubble = ({ message }: MessageBubbleProps) => {
             </div>
           )}
           
+          {/* Document Citations */}
+          {!isUser && message.citations && message.citations.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 pt-2 border-t border-border/50">
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <BookOpen className="h-3.5 w-3.5" />
+                Sources
+              </span>
+              {message.citations.map((citation) => (
+                <Popover key={citation.index}>
+                  <PopoverTrigger asChild>
+                    <button className="text-xs px-2 py-0.5 rounded-md bg-muted hover:bg-muted/70 text-foreground max-w-[14rem] truncate">
+                      [{citation.index}] {citation.documentName}
+                      {citation.page ? `, p. ${citation.page}` : ""}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-96 space-y-2" align="start">
+                    <p className="text-xs font-semibold">
+                      {citation.documentName}
+                      {citation.page ? ` · Page ${citation.page}` : ""}
+                    </p>
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap max-h-64 overflow-y-auto">
+                      {citation.excerpt}
+                    </p>
+                  </PopoverContent>
+                </Popover>
+              ))}
+            </div>
+          )}
+
           {message.audioContent && message.role === "assistant" && (
             <div className="pt-2">
               <VoicePlayer audioContent={message.audioContent} autoPlay />
@@ -212,6 +310,50 @@ const MessageBubble = ({ message }: MessageBubbleProps) => {
           )}
         </div>
 
+        {!isUser && message.model && (
+          <span className="px-2 text-xs text-muted-foreground">{chatModelLabel(message.model)}</span>
+        )}
+
+        {branch && (
+          <div className={`flex items-center gap-1 text-xs text-muted-foreground ${isUser ? "justify-end" : ""}`}>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={branch.onPrevious}
+              disabled={branch.disabled || branch.index === 0}
+              aria-label="Previous version"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>{branch.index + 1}/{branch.count}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={branch.onNext}
+              disabled={branch.disabled || branch.index === branch.count - 1}
+              aria-label="Next version"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {isUser && onEdit && !isEditing && (
+          <div className={`flex justify-end transition-opacity duration-200 ${showControls ? 'opacity-100' : 'opacity-0'}`}>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={startEditing}
+              className="h-8 px-2.5 text-muted-foreground hover:text-foreground rounded-lg"
+            >
+              <Pencil className="h-4 w-4" />
+              <span className="ml-1 text-xs">Edit</span>
+            </Button>
+          </div>
+        )}
+
         {/* Action Controls */}
         {!isUser && (
           <div className={`flex flex-col gap-2 transition-opacity duration-200 ${showControls ? 'opacity-100' : 'opacity-0'}`}>
@@ -253,6 +395,17 @@ const MessageBubble = ({ message }: MessageBubbleProps) => {
               >
                 <Share2 className="h-4 w-4" />
               </Button>
+              {onRegenerate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onRegenerate}
+                  className="h-8 px-2.5 text-muted-foreground hover:text-foreground rounded-lg"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  <span className="ml-1 text-xs">Regenerate</span>
+                </Button>
+              )}
             </div>
             
             {/* Speech Rate Slider */}
@@ -0,0 +1,105 @@
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  CHAT_MODELS,
+  MAX_TOKENS_MAX,
+  MAX_TOKENS_MIN,
+  TEMPERATURE_MAX,
+  TEMPERATURE_MIN,
+  type GenerationOptions,
+} from "@/lib/chatModels";
+
+export type GenerationSettings = Required<GenerationOptions>;
+
+interface ModelPickerProps {
+  settings: GenerationSettings;
+  onSettingsChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+const ModelPicker = ({ settings, onSettingsChange, disabled }: ModelPickerProps) => {
+  const selectedModel = CHAT_MODELS.find(m => m.id === settings.model);
+
+  const updateSetting = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={settings.model}
+        onValueChange={(v) => updateSetting("model", v as GenerationSettings["model"])}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-auto gap-2 rounded-full border-border bg-muted/50 text-xs">
+          <SelectValue>{selectedModel?.label}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {CHAT_MODELS.map(model => (
+            <SelectItem key={model.id} value={model.id}>
+              <span>{model.label}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{model.description}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full"
+            disabled={disabled}
+            title="Generation settings"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-4" align="start">
+          <div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Temperature</Label>
+              <span className="text-xs text-muted-foreground">{settings.temperature.toFixed(1)}</span>
+            </div>
+            <Slider
+              value={[settings.temperature]}
+              onValueChange={(v) => updateSetting("temperature", v[0])}
+              min={TEMPERATURE_MIN}
+              max={TEMPERATURE_MAX}
+              step={0.1}
+              disabled={!selectedModel?.supportsTemperature}
+              className="mt-2"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {selectedModel?.supportsTemperature
+                ? "Lower is more focused, higher is more creative"
+                : `${selectedModel?.label} uses a fixed temperature`}
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Max response tokens</Label>
+              <span className="text-xs text-muted-foreground">{settings.maxTokens.toLocaleString()}</span>
+            </div>
+            <Slider
+              value={[settings.maxTokens]}
+              onValueChange={(v) => updateSetting("maxTokens", v[0])}
+              min={MAX_TOKENS_MIN}
+              max={MAX_TOKENS_MAX}
+              step={256}
+              className="mt-2"
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default ModelPicker;
@@ -1,19 +1,67 @@
-import { Home, MessageSquare, Clock, Calendar, FileText, Video, ImageIcon, Settings, Plus, ChevronDown, Circle } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Home, MessageSquare, Clock, Calendar, FileText, Video, ImageIcon, Settings, Plus, ChevronDown, Circle, FolderOpen, Pin } from "lucide-react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { CONVERSATIONS_CHANGED_EVENT, conversationPath } from "@/lib/conversations";
 
 interface ModernSidebarProps {
   onCloseMobile?: () => void;
 }
 
+interface PinnedConversation {
+  id: string;
+  title: string;
+  type: string;
+}
+
+const MAX_PINNED = 8;
+
+const typeIcons: Record<string, typeof MessageSquare> = {
+  chat: MessageSquare,
+  ppt: FileText,
+  video: Video,
+  image: ImageIcon,
+};
+
 const ModernSidebar = ({ onCloseMobile }: ModernSidebarProps) => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const [pinned, setPinned] = useState<PinnedConversation[]>([]);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const loadPinned = async () => {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('id, title, type')
+        .not('pinned_at', 'is', null)
+        .is('archived_at', null)
+        .order('pinned_at', { ascending: false })
+        .limit(MAX_PINNED);
+
+      if (error) {
+        console.error('Error loading pinned conversations:', error);
+        return;
+      }
+      if (!cancelled) setPinned(data ?? []);
+    };
+
+    loadPinned();
+    window.addEventListener(CONVERSATIONS_CHANGED_EVENT, loadPinned);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CONVERSATIONS_CHANGED_EVENT, loadPinned);
+    };
+  }, [userId]);
   
   const userEmail = user?.email || "";
   const userName = userEmail.split('@')[0] || "User";
@@ -23,6 +71,7 @@ const ModernSidebar = ({ onCloseMobile }: ModernSidebarProps) => {
     { icon: Home, label: "Home", href: "/" },
     { icon: MessageSquare, label: "AI Chat", href: "/chat" },
     { icon: Clock, label: "History", href: "/history" },
+    { icon: FolderOpen, label: "Documents", href: "/documents" },
     { icon: Calendar, label: "Calendar", href: "/calendar" },
     { icon: FileText, label: "AI PPT", href: "/ppt" },
     { icon: Video, label: "AI Video", href: "/video" },
@@ -58,7 +107,7 @@ const ModernSidebar = ({ onCloseMobile }: ModernSidebarProps) => {
         <nav className="space-y-1 px-2">
           {navItems.map((item) => {
             const Icon = item.icon;
-            const isActive = location.pathname === item.href;
+            const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`);
             return (
               <button
                 key={item.label}
@@ -84,6 +133,37 @@ const ModernSidebar = ({ onCloseMobile }: ModernSidebarProps) => {
             );
           })}
         </nav>
+
+        {pinned.length > 0 && (
+          <div className="mt-6 px-2">
+            <p className="px-3 mb-2 flex items-center gap-2 text-xs font-medium text-muted-foreground">
+              <Pin className="h-3 w-3" />
+              Pinned
+            </p>
+            <div className="space-y-1">
+              {pinned.map((conversation) => {
+                const Icon = typeIcons[conversation.type] ?? MessageSquare;
+                const href = conversationPath(conversation);
+                return (
+                  <button
+                    key={conversation.id}
+                    onClick={() => handleNavClick(href)}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-3 py-1.5 rounded-lg text-sm transition-colors",
+                      location.pathname === href
+                        ? "bg-primary/10 text-primary font-medium"
+                        : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                    )}
+                    title={conversation.title}
+                  >
+                    <Icon className="h-4 w-4 flex-shrink-0" />
+                    <span className="flex-1 text-left truncate">{conversation.title}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Settings at Bottom */}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Loader2, Pencil, Plus, Trash2, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { CHAT_MODELS, chatModelLabel } from "@/lib/chatModels";
+import {
+  MAX_PERSONA_NAME_LENGTH,
+  MAX_PERSONA_PROMPT_LENGTH,
+  RESPONSE_STYLES,
+  createPersona,
+  deletePersona,
+  updatePersona,
+  type Persona,
+  type PersonaInput,
+} from "@/lib/personas";
+
+interface PersonaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  personas: Persona[];
+  onPersonasChange: (personas: Persona[]) => void;
+}
+
+const NO_DEFAULT_MODEL = "none";
+
+const emptyPersona: PersonaInput = {
+  name: "",
+  system_prompt: "",
+  default_model: null,
+  response_style: "structured",
+  replace_base_prompt: false,
+};
+
+const PersonaDialog = ({ open, onOpenChange, personas, onPersonasChange }: PersonaDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // null shows the list; "new" or a persona id shows the form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaInput>(emptyPersona);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (persona?: Persona) => {
+    setEditingId(persona?.id ?? "new");
+    setForm(persona
+      ? {
+          name: persona.name,
+          system_prompt: persona.system_prompt,
+          default_model: persona.default_model,
+          response_style: persona.response_style,
+          replace_base_prompt: persona.replace_base_prompt,
+        }
+      : emptyPersona);
+  };
+
+  const updateField = <K extends keyof PersonaInput>(key: K, value: PersonaInput[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!user || !form.name.trim() || !form.system_prompt.trim()) return;
+
+    setIsSaving(true);
+    const input = { ...form, name: form.name.trim(), system_prompt: form.system_prompt.trim() };
+    try {
+      if (editingId === "new") {
+        const persona = await createPersona(user.id, input);
+        onPersonasChange([...personas, persona].sort((a, b) => a.name.localeCompare(b.name)));
+      } else if (editingId) {
+        const persona = await updatePersona(editingId, input);
+        onPersonasChange(personas.map(p => (p.id === persona.id ? persona : p)));
+      }
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error saving persona:', error);
+      toast({ title: "Error", description: "Failed to save persona", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (persona: Persona) => {
+    try {
+      await deletePersona(persona.id);
+      onPersonasChange(personas.filter(p => p.id !== persona.id));
+      toast({ title: "Deleted", description: `${persona.name} was removed. Its chats now use the default assistant.` });
+    } catch (error) {
+      console.error('Error deleting persona:', error);
+      toast({ title: "Error", description: "Failed to delete persona", variant: "destructive" });
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setEditingId(null);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editingId === null ? "Personas" : editingId === "new" ? "New Persona" : "Edit Persona"}</DialogTitle>
+          <DialogDescription>
+            A persona sets the assistant's instructions, response style and default model for the chats that use it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId === null ? (
+          <div className="space-y-3">
+            <ScrollArea className="h-72">
+              {personas.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-12">No personas yet</p>
+              ) : (
+                <div className="space-y-1 pr-3">
+                  {personas.map(persona => (
+                    <div key={persona.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted">
+                      <UserRound className="h-5 w-5 text-primary shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{persona.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {RESPONSE_STYLES.find(s => s.id === persona.response_style)?.label ?? persona.response_style}
+                          {persona.default_model && ` • ${chatModelLabel(persona.default_model)}`}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(persona)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(persona)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <Button onClick={() => startEditing()} className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              New Persona
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                maxLength={MAX_PERSONA_NAME_LENGTH}
+                placeholder="e.g. Code Reviewer"
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label className="text-xs">System Prompt</Label>
+              <Textarea
+                value={form.system_prompt}
+                onChange={(e) => updateField("system_prompt", e.target.value)}
+                maxLength={MAX_PERSONA_PROMPT_LENGTH}
+                placeholder="You are a senior engineer who reviews code for bugs and readability..."
+                className="mt-1 min-h-[120px]"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-xs">Response Style</Label>
+                <Select value={form.response_style} onValueChange={(v) => updateField("response_style", v)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RESPONSE_STYLES.map(style => (
+                      <SelectItem key={style.id} value={style.id}>{style.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="text-xs">Default Model</Label>
+                <Select
+                  value={form.default_model ?? NO_DEFAULT_MODEL}
+                  onValueChange={(v) => updateField("default_model", v === NO_DEFAULT_MODEL ? null : v)}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DEFAULT_MODEL}>No default</SelectItem>
+                    {CHAT_MODELS.map(model => (
+                      <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="text-xs">Replace the built-in prompt</Label>
+                <p className="text-xs text-muted-foreground">Off: your prompt is added on top of the default assistant instructions</p>
+              </div>
+              <Switch
+                checked={form.replace_base_prompt}
+                onCheckedChange={(v) => updateField("replace_base_prompt", v)}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !form.name.trim() || !form.system_prompt.trim()}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PersonaDialog;
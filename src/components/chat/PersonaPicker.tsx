@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchPersonas, type Persona } from "@/lib/personas";
+import PersonaDialog from "./PersonaDialog";
+
+interface PersonaPickerProps {
+  personaId: string | null;
+  onPersonaChange: (persona: Persona | null) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_PERSONA = "default";
+
+const PersonaPicker = ({ personaId, onPersonaChange, disabled }: PersonaPickerProps) => {
+  const { user } = useAuth();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const loadPersonas = async () => {
+      try {
+        const data = await fetchPersonas();
+        if (!cancelled) setPersonas(data);
+      } catch (error) {
+        console.error('Error loading personas:', error);
+      }
+    };
+
+    loadPersonas();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handlePersonasChange = (next: Persona[]) => {
+    setPersonas(next);
+    if (personaId && !next.some(p => p.id === personaId)) {
+      onPersonaChange(null);
+    }
+  };
+
+  const selected = personas.find(p => p.id === personaId);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={personaId ?? DEFAULT_PERSONA}
+        onValueChange={(v) => onPersonaChange(personas.find(p => p.id === v) ?? null)}
+        disabled={disabled}
+      >
+        <SelectTrigger
+          className="h-8 w-auto max-w-[12rem] gap-2 rounded-full border-border bg-muted/50 text-xs"
+          title={disabled ? "The persona is set when a chat starts" : "Persona"}
+        >
+          <SelectValue>{selected?.name ?? "Default assistant"}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_PERSONA}>Default assistant</SelectItem>
+          {personas.map(persona => (
+            <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 rounded-full"
+        onClick={() => setShowDialog(true)}
+        title="Manage personas"
+      >
+        <Settings2 className="h-4 w-4" />
+      </Button>
+
+      <PersonaDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        personas={personas}
+        onPersonasChange={handlePersonasChange}
+      />
+    </div>
+  );
+};
+
+export default PersonaPicker;
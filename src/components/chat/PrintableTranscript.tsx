@@ -0,0 +1,70 @@
+import ReactMarkdown from "react-markdown";
+import { formatTimestamp, messageAuthor, transcriptMessages, type ConversationExport } from "@/lib/conversationExport";
+import { formatFileSize } from "@/lib/documents";
+
+// Standalone styles; the print frame doesn't load the app's Tailwind CSS
+const PRINT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111; margin: 0; padding: 32px; line-height: 1.5; font-size: 12pt; }
+  h1 { font-size: 20pt; margin: 0 0 4px; }
+  .meta { color: #666; font-size: 10pt; margin-bottom: 16px; }
+  .summary { border-left: 3px solid #ccc; padding-left: 12px; color: #444; margin-bottom: 24px; }
+  .message { border-top: 1px solid #e5e5e5; padding: 16px 0; break-inside: avoid-page; }
+  .author { font-weight: 600; }
+  .time { color: #888; font-size: 9pt; margin-left: 8px; }
+  .content { margin-top: 8px; }
+  .content p { margin: 0 0 8px; }
+  pre { background: #f5f5f5; border: 1px solid #e5e5e5; border-radius: 6px; padding: 10px; white-space: pre-wrap; word-break: break-word; font-size: 9.5pt; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 9.5pt; }
+  .attachments, .sources { font-size: 10pt; color: #444; margin-top: 8px; }
+  .attachments ul, .sources ol { margin: 4px 0 0; padding-left: 20px; }
+  @page { margin: 16mm; }
+`;
+
+// Static rendering of the shown branch for printing to PDF
+const PrintableTranscript = ({ data }: { data: ConversationExport }) => (
+  <>
+    <style dangerouslySetInnerHTML={{ __html: PRINT_STYLES }} />
+    <h1>{data.conversation.title}</h1>
+    <div className="meta">
+      Started {formatTimestamp(data.conversation.created_at)} · Exported {formatTimestamp(data.exported_at)}
+      {data.conversation.tags.length > 0 && ` · ${data.conversation.tags.map(tag => `#${tag}`).join(" ")}`}
+    </div>
+    {data.conversation.summary && <div className="summary">{data.conversation.summary}</div>}
+
+    {transcriptMessages(data).map(message => (
+      <div key={message.id} className="message">
+        <div>
+          <span className="author">{messageAuthor(message)}</span>
+          <span className="time">{formatTimestamp(message.created_at)}</span>
+        </div>
+        <div className="content">
+          <ReactMarkdown>{message.content}</ReactMarkdown>
+        </div>
+        {message.files.length > 0 && (
+          <div className="attachments">
+            Attachments:
+            <ul>
+              {message.files.map((file, index) => (
+                <li key={index}>{file.name} ({file.type || "unknown type"}, {formatFileSize(file.size)})</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {message.citations.length > 0 && (
+          <div className="sources">
+            Sources:
+            <ol>
+              {message.citations.map(citation => (
+                <li key={citation.index} value={citation.index}>
+                  {citation.documentName}{citation.page ? `, page ${citation.page}` : ""}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    ))}
+  </>
+);
+
+export default PrintableTranscript;
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Check, Folder as FolderIcon, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_FOLDER_NAME_LENGTH,
+  createFolder,
+  deleteFolder,
+  renameFolder,
+  type Folder,
+} from "@/lib/conversations";
+
+interface FolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folders: Folder[];
+  onFoldersChange: (folders: Folder[]) => void;
+}
+
+const sortFolders = (folders: Folder[]) => [...folders].sort((a, b) => a.name.localeCompare(b.name));
+
+const FolderDialog = ({ open, onOpenChange, folders, onFoldersChange }: FolderDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!user || !name) return;
+
+    setIsSaving(true);
+    try {
+      const folder = await createFolder(user.id, name);
+      onFoldersChange(sortFolders([...folders, folder]));
+      setNewName("");
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      toast({ title: "Error", description: "Failed to create folder", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = async (folder: Folder) => {
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!name || name === folder.name) return;
+
+    try {
+      const updated = await renameFolder(folder.id, name);
+      onFoldersChange(sortFolders(folders.map(f => (f.id === updated.id ? updated : f))));
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      toast({ title: "Error", description: "Failed to rename folder", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (folder: Folder) => {
+    try {
+      await deleteFolder(folder.id);
+      onFoldersChange(folders.filter(f => f.id !== folder.id));
+      toast({ title: "Deleted", description: `${folder.name} was removed. Its conversations are now unfiled.` });
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      toast({ title: "Error", description: "Failed to delete folder", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Folders</DialogTitle>
+          <DialogDescription>Group conversations, decks and images by project.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <ScrollArea className="h-64">
+            {folders.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No folders yet</p>
+            ) : (
+              <div className="space-y-1 pr-3">
+                {folders.map(folder => (
+                  <div key={folder.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted">
+                    <FolderIcon className="h-5 w-5 text-primary shrink-0" />
+                    {editingId === folder.id ? (
+                      <>
+                        <Input
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(folder);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          maxLength={MAX_FOLDER_NAME_LENGTH}
+                          className="h-8 flex-1"
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRename(folder)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <p className="flex-1 min-w-0 text-sm font-medium truncate">{folder.name}</p>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => {
+                            setEditingId(folder.id);
+                            setEditingName(folder.name);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(folder)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+              }}
+              maxLength={MAX_FOLDER_NAME_LENGTH}
+              placeholder="New folder name"
+            />
+            <Button onClick={handleCreate} disabled={isSaving || !newName.trim()}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FolderDialog;
@@ -0,0 +1,196 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, CheckCircle2, FileUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import {
+  IMPORT_FILE_ACCEPT,
+  IMPORT_SOURCE_LABELS,
+  importConversation,
+  parseImportFile,
+  type ParsedImport,
+  type SkippedItem,
+} from "@/lib/conversationImport";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+interface ImportResult {
+  imported: number;
+  alreadyImported: number;
+  failed: SkippedItem[];
+}
+
+const ImportDialog = ({ open, onOpenChange, onImported }: ImportDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const reset = () => {
+    setReadError(null);
+    setParsed(null);
+    setProgress(null);
+    setResult(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setIsReading(true);
+    try {
+      setParsed(await parseImportFile(file));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setReadError(error instanceof Error ? error.message : "The file could not be read");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // One conversation at a time so a failure only loses that conversation
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    const outcome: ImportResult = { imported: 0, alreadyImported: 0, failed: [] };
+    setProgress(0);
+    for (const [index, conversation] of parsed.conversations.entries()) {
+      try {
+        if (await importConversation(conversation, parsed.source)) {
+          outcome.imported++;
+        } else {
+          outcome.alreadyImported++;
+        }
+      } catch (error) {
+        console.error('Error importing conversation:', error);
+        outcome.failed.push({ title: conversation.title, reason: "Could not be saved" });
+      }
+      setProgress(((index + 1) / parsed.conversations.length) * 100);
+    }
+
+    setResult(outcome);
+    setProgress(null);
+    if (outcome.imported > 0) onImported();
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing mid-import would hide the progress while inserts keep running
+    if (progress !== null) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const skippedItems = parsed ? [...parsed.skipped, ...(result?.failed ?? [])] : [];
+  const skippedMessages = parsed ? Object.entries(parsed.skippedMessages) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Conversations</DialogTitle>
+          <DialogDescription>
+            Bring in a ChatGPT <code>conversations.json</code>, an Anthropic export archive (.zip) or a JSON export from this app.
+            Original dates are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+
+        {!parsed ? (
+          <div className="space-y-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading}
+              className="w-full border-2 border-dashed border-border rounded-lg py-10 flex flex-col items-center gap-2 text-muted-foreground hover:border-primary hover:text-foreground transition-colors"
+            >
+              {isReading ? <Loader2 className="h-8 w-8 animate-spin" /> : <FileUp className="h-8 w-8" />}
+              <span className="text-sm">{isReading ? "Reading export..." : "Choose an export file"}</span>
+            </button>
+            {readError && (
+              <p className="text-sm text-destructive flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                {readError}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {result ? (
+              <div className="flex items-start gap-3 rounded-lg bg-muted p-3">
+                <CheckCircle2 className="h-5 w-5 text-primary mt-0.5 shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium">
+                    Imported {result.imported} conversation{result.imported === 1 ? "" : "s"} from {IMPORT_SOURCE_LABELS[parsed.source]}
+                  </p>
+                  {result.alreadyImported > 0 && (
+                    <p className="text-muted-foreground">{result.alreadyImported} were already imported and left unchanged</p>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm">
+                Found <span className="font-medium">{parsed.conversations.length}</span> conversation
+                {parsed.conversations.length === 1 ? "" : "s"} in this {IMPORT_SOURCE_LABELS[parsed.source]} export.
+              </p>
+            )}
+
+            {(skippedItems.length > 0 || skippedMessages.length > 0) && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Skipped</p>
+                <div className="max-h-48 overflow-y-auto rounded-lg border border-border">
+                  <div className="p-3 space-y-1 text-sm">
+                    {skippedMessages.map(([reason, count]) => (
+                      <p key={reason} className="text-muted-foreground">
+                        {reason}: {count}
+                      </p>
+                    ))}
+                    {skippedItems.map((item, index) => (
+                      <p key={index} className="flex justify-between gap-4">
+                        <span className="truncate">{item.title}</span>
+                        <span className="text-muted-foreground shrink-0">{item.reason}</span>
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {progress !== null && <Progress value={progress} />}
+
+            <div className="flex justify-end gap-2">
+              {result ? (
+                <Button onClick={() => handleOpenChange(false)}>Done</Button>
+              ) : (
+                <>
+                  <Button variant="ghost" onClick={reset} disabled={progress !== null}>
+                    Choose Another File
+                  </Button>
+                  <Button onClick={handleImport} disabled={progress !== null || parsed.conversations.length === 0}>
+                    {progress !== null && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Import
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTags } from "@/lib/conversations";
+
+interface TagEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  tags: string[];
+  // Tags the user already uses elsewhere, offered as suggestions
+  knownTags: string[];
+  onSave: (tags: string[]) => void;
+}
+
+// The draft starts from `tags` when the dialog mounts; give it a key per conversation
+const TagEditorDialog = ({ open, onOpenChange, title, tags, knownTags, onSave }: TagEditorDialogProps) => {
+  const [draft, setDraft] = useState<string[]>(tags);
+  const [input, setInput] = useState("");
+
+  // Commas separate tags, so pasting "work, q3 planning" adds both
+  const addTags = (value: string) => {
+    setDraft(prev => normalizeTags([...prev, ...value.split(",")]));
+    setInput("");
+  };
+
+  const handleSave = () => {
+    onSave(normalizeTags([...draft, ...input.split(",")]));
+    onOpenChange(false);
+  };
+
+  const suggestions = knownTags.filter(tag => !draft.includes(tag)).slice(0, 12);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription className="truncate">{title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2 min-h-[1.5rem]">
+            {draft.length === 0 && <p className="text-sm text-muted-foreground">No tags yet</p>}
+            {draft.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                {tag}
+                <button
+                  onClick={() => setDraft(prev => prev.filter(t => t !== tag))}
+                  className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+                  aria-label={`Remove ${tag}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+
+          <Input
+            value={input}
+            onChange={(e) => {
+              if (e.target.value.includes(",")) {
+                addTags(e.target.value);
+              } else {
+                setInput(e.target.value);
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && input.trim()) {
+                e.preventDefault();
+                addTags(input);
+              } else if (e.key === 'Backspace' && !input && draft.length > 0) {
+                setDraft(prev => prev.slice(0, -1));
+              }
+            }}
+            maxLength={MAX_TAG_LENGTH}
+            disabled={draft.length >= MAX_TAGS}
+            placeholder={draft.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : "Add a tag and press Enter"}
+          />
+
+          {suggestions.length > 0 && draft.length < MAX_TAGS && (
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map(tag => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="cursor-pointer hover:bg-muted"
+                  onClick={() => addTags(tag)}
+                >
+                  + {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagEditorDialog;
@@ -13,13 +13,16 @@ interface AppLayoutProps {
   voiceEnabled?: boolean;
   onVoiceToggle?: () => void;
   showVoiceToggle?: boolean;
+  // Page-specific buttons shown before the voice toggle
+  headerActions?: React.ReactNode;
 }
 
 const AppLayout = ({ 
   children, 
   voiceEnabled = false, 
   onVoiceToggle,
-  showVoiceToggle = false
+  showVoiceToggle = false,
+  headerActions,
 }: AppLayoutProps) => {
   const { signOut } = useAuth();
   const navigate = useNavigate();
@@ -72,6 +75,7 @@ const AppLayout = ({
             </div>
             
             <div className="flex items-center gap-2">
+              {headerActions}
               {showVoiceToggle && onVoiceToggle && (
                 <Button
                   onClick={onVoiceToggle}
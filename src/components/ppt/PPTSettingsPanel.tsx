@@ -3,6 +3,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import type { PPTSettings } from "@/pages/PPT";
+import { SLIDE_COUNT_MAX, SLIDE_COUNT_MIN } from "@/lib/pptSettings";
 
 interface PPTSettingsPanelProps {
   settings: PPTSettings;
@@ -135,8 +136,8 @@ const PPTSettingsPanel = ({ settings, onSettingsChange }: PPTSettingsPanelProps)
         <Slider
           value={[settings.slideCount]}
           onValueChange={(v) => updateSetting("slideCount", v[0])}
-          min={5}
-          max={30}
+          min={SLIDE_COUNT_MIN}
+          max={SLIDE_COUNT_MAX}
           step={1}
         />
       </div>
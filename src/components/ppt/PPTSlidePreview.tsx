@@ -1,13 +1,23 @@
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Copy, Lightbulb } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Copy, Lightbulb, Pencil, Check, Plus, X, RefreshCw, Loader2, BookOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { MAX_INSTRUCTION_LENGTH } from "@/lib/pptSettings";
 import type { Slide } from "@/pages/PPT";
 
 interface PPTSlidePreviewProps {
   slide: Slide;
   theme: string;
   onCopy: () => void;
+  onChange?: (slide: Slide) => void;
+  totalSlides?: number;
+  isRegenerating?: boolean;
+  onRegenerate?: (instruction: string, fromSlide: number, toSlide: number) => Promise<boolean>;
 }
 
 const themeStyles: Record<string, { bg: string; titleColor: string; textColor: string; accent: string }> = {
@@ -43,8 +53,55 @@ const themeStyles: Record<string, { bg: string; titleColor: string; textColor: s
   },
 };
 
-const PPTSlidePreview = ({ slide, theme, onCopy }: PPTSlidePreviewProps) => {
+const PPTSlidePreview = ({
+  slide,
+  theme,
+  onCopy,
+  onChange,
+  totalSlides = 1,
+  isRegenerating = false,
+  onRegenerate,
+}: PPTSlidePreviewProps) => {
   const styles = themeStyles[theme] || themeStyles.corporate;
+  const [isEditing, setIsEditing] = useState(false);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [instruction, setInstruction] = useState("");
+  const [rangeEnd, setRangeEnd] = useState(slide.slideNumber);
+  const editInputClass = cn("bg-transparent border-dashed", theme === "dark" && "border-white/30");
+
+  // Leave edit mode when navigating to another slide
+  useEffect(() => {
+    setIsEditing(false);
+    setRangeEnd(slide.slideNumber);
+  }, [slide.slideNumber]);
+
+  const handleRegenerate = async () => {
+    if (!onRegenerate || !instruction.trim()) return;
+    const succeeded = await onRegenerate(instruction.trim(), slide.slideNumber, rangeEnd);
+    if (succeeded) {
+      setInstruction("");
+      setShowRegenerate(false);
+    }
+  };
+
+  const updateField = <K extends keyof Slide>(key: K, value: Slide[K]) => {
+    onChange?.({ ...slide, [key]: value });
+  };
+
+  const updateBullet = (index: number, value: string) => {
+    updateField("bullets", slide.bullets.map((b, i) => (i === index ? value : b)));
+  };
+
+  const removeBullet = (index: number) => {
+    updateField("bullets", slide.bullets.filter((_, i) => i !== index));
+  };
+
+  const finishEditing = () => {
+    // Drop bullets that were added but never filled in
+    const bullets = slide.bullets.filter(b => b.trim());
+    if (bullets.length !== slide.bullets.length) updateField("bullets", bullets);
+    setIsEditing(false);
+  };
 
   return (
     <div className="space-y-4">
@@ -60,24 +117,71 @@ const PPTSlidePreview = ({ slide, theme, onCopy }: PPTSlidePreviewProps) => {
           </div>
 
           {/* Title */}
-          <h2 className={cn("text-2xl md:text-4xl font-bold mb-6", styles.titleColor)}>
-            {slide.title}
-          </h2>
+          {isEditing ? (
+            <Input
+              value={slide.title}
+              onChange={(e) => updateField("title", e.target.value)}
+              placeholder="Slide title"
+              className={cn("text-xl md:text-2xl font-bold mb-4 h-auto", editInputClass, styles.titleColor)}
+            />
+          ) : (
+            <h2 className={cn("text-2xl md:text-4xl font-bold mb-6", styles.titleColor)}>
+              {slide.title}
+            </h2>
+          )}
 
           {/* Bullets */}
-          <div className="flex-1 space-y-3">
+          <div className={cn("flex-1 space-y-3", isEditing && "overflow-y-auto space-y-2")}>
             {slide.bullets.map((bullet, index) => (
-              <div key={index} className="flex items-start gap-3">
-                <div className={cn("w-2 h-2 rounded-full mt-2 shrink-0", styles.accent)} />
-                <p className={cn("text-base md:text-lg", styles.textColor)}>
-                  {bullet}
-                </p>
+              <div key={index} className={cn("flex items-start gap-3", isEditing && "items-center")}>
+                <div className={cn("w-2 h-2 rounded-full shrink-0", !isEditing && "mt-2", styles.accent)} />
+                {isEditing ? (
+                  <>
+                    <Input
+                      value={bullet}
+                      onChange={(e) => updateBullet(index, e.target.value)}
+                      placeholder="Bullet point"
+                      className={cn("h-8", editInputClass, styles.textColor)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeBullet(index)}
+                      className={cn("h-8 w-8 shrink-0", styles.textColor)}
+                      title="Remove bullet"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <p className={cn("text-base md:text-lg", styles.textColor)}>
+                    {bullet}
+                  </p>
+                )}
               </div>
             ))}
+            {isEditing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateField("bullets", [...slide.bullets, ""])}
+                className={cn("h-8", styles.textColor)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add bullet
+              </Button>
+            )}
           </div>
 
           {/* Visual Suggestion */}
-          {slide.visualSuggestion && (
+          {isEditing ? (
+            <Input
+              value={slide.visualSuggestion ?? ""}
+              onChange={(e) => updateField("visualSuggestion", e.target.value || undefined)}
+              placeholder="💡 Visual suggestion (optional)"
+              className={cn("mt-4 h-8 text-xs italic", editInputClass, styles.textColor)}
+            />
+          ) : slide.visualSuggestion && (
             <div className={cn("mt-4 p-3 rounded-lg bg-black/5", theme === "dark" && "bg-white/10")}>
               <p className={cn("text-xs italic", styles.textColor)}>
                 💡 Visual: {slide.visualSuggestion}
@@ -87,16 +191,110 @@ const PPTSlidePreview = ({ slide, theme, onCopy }: PPTSlidePreviewProps) => {
         </CardContent>
       </Card>
 
+      {slide.sourceSection && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <BookOpen className="h-3 w-3" />
+          Source: {slide.sourceSection}
+        </p>
+      )}
+
       {/* Actions */}
       <div className="flex items-center justify-between">
-        <Button variant="outline" size="sm" onClick={onCopy}>
-          <Copy className="h-4 w-4 mr-2" />
-          Copy Slide
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onCopy}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Slide
+          </Button>
+          {onRegenerate && (
+            <Popover open={showRegenerate} onOpenChange={setShowRegenerate}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isRegenerating}>
+                  {isRegenerating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Regenerate Slide
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 space-y-3" align="start">
+                <div>
+                  <Label htmlFor="regenerate-instruction" className="text-xs">Instruction</Label>
+                  <Textarea
+                    id="regenerate-instruction"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    maxLength={MAX_INSTRUCTION_LENGTH}
+                    placeholder="E.g., make this more technical, add a real-world example..."
+                    rows={3}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="regenerate-range" className="text-xs whitespace-nowrap">
+                    Slides {slide.slideNumber} to
+                  </Label>
+                  <Input
+                    id="regenerate-range"
+                    type="number"
+                    min={slide.slideNumber}
+                    max={totalSlides}
+                    value={rangeEnd}
+                    onChange={(e) => setRangeEnd(
+                      Math.min(totalSlides, Math.max(slide.slideNumber, Number(e.target.value) || slide.slideNumber))
+                    )}
+                    className="h-8 w-20"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={handleRegenerate}
+                  disabled={isRegenerating || !instruction.trim()}
+                >
+                  {isRegenerating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Regenerate
+                </Button>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+        {onChange && (
+          isEditing ? (
+            <Button size="sm" onClick={finishEditing}>
+              <Check className="h-4 w-4 mr-2" />
+              Done
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit Slide
+            </Button>
+          )
+        )}
       </div>
 
       {/* Speaker Notes */}
-      {slide.speakerNotes && (
+      {isEditing ? (
+        <Card className="bg-card">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Lightbulb className="h-4 w-4 text-amber-500" />
+              <h4 className="font-medium text-sm">Speaker Notes</h4>
+            </div>
+            <Textarea
+              value={slide.speakerNotes}
+              onChange={(e) => updateField("speakerNotes", e.target.value)}
+              placeholder="What to say while this slide is shown..."
+              rows={4}
+            />
+          </CardContent>
+        </Card>
+      ) : slide.speakerNotes && (
         <Card className="bg-card">
           <CardContent className="p-4">
             <div className="flex items-center gap-2 mb-2">
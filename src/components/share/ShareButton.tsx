@@ -0,0 +1,29 @@
+import { useState } from "react";
+import { Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import ShareDialog from "@/components/share/ShareDialog";
+
+interface ShareButtonProps {
+  conversationId: string;
+}
+
+const ShareButton = ({ conversationId }: ShareButtonProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        className="rounded-full shrink-0"
+        onClick={() => setOpen(true)}
+        title="Share"
+      >
+        <Share2 className="h-4 w-4 md:h-5 md:w-5" />
+      </Button>
+      <ShareDialog open={open} onOpenChange={setOpen} conversationId={conversationId} />
+    </>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SHARE_EXPIRY_OPTIONS,
+  createShareLink,
+  fetchShareLinks,
+  isShareLinkActive,
+  revokeShareLink,
+  shareUrl,
+  type ShareLink,
+} from "@/lib/sharing";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  title?: string;
+}
+
+const ShareDialog = ({ open, onOpenChange, conversationId, title }: ShareDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiry, setExpiry] = useState(SHARE_EXPIRY_OPTIONS[0].value);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadLinks = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchShareLinks(conversationId);
+        if (!cancelled) setLinks(data);
+      } catch (error) {
+        console.error('Error loading share links:', error);
+        if (!cancelled) toast({ title: "Error", description: "Failed to load share links", variant: "destructive" });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadLinks();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, conversationId, toast]);
+
+  const handleCopy = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link.token));
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000);
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setIsCreating(true);
+    try {
+      const days = SHARE_EXPIRY_OPTIONS.find(option => option.value === expiry)?.days ?? null;
+      const link = await createShareLink(user.id, conversationId, days);
+      setLinks(prev => [link, ...prev]);
+      await handleCopy(link);
+      toast({ title: "Link created", description: "Copied to clipboard" });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({ title: "Error", description: "Failed to create share link", variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      await revokeShareLink(link.id);
+      setLinks(prev => prev.map(l => (l.id === link.id ? { ...l, revoked_at: new Date().toISOString() } : l)));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({ title: "Error", description: "Failed to revoke share link", variant: "destructive" });
+    }
+  };
+
+  const activeLinks = links.filter(isShareLinkActive);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view {title ? <span className="font-medium">{title}</span> : "this conversation"} read-only
+            without signing in. Revoking a link stops it working straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleCreate} disabled={isCreating || !user}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+              Create Link
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : activeLinks.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No active links</p>
+          ) : (
+            <div className="space-y-3 max-h-64 overflow-y-auto">
+              {activeLinks.map(link => (
+                <div key={link.id} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input readOnly value={shareUrl(link.token)} className="text-xs" onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" size="icon" className="shrink-0" onClick={() => handleCopy(link)} title="Copy link">
+                      {copiedId === link.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      Created {format(new Date(link.created_at), "MMM d, yyyy")}
+                      {" · "}
+                      {link.expires_at ? `Expires ${format(new Date(link.expires_at), "MMM d, yyyy h:mm a")}` : "Never expires"}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-destructive hover:text-destructive"
+                      onClick={() => handleRevoke(link)}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
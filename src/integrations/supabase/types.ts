@@ -58,37 +58,444 @@ export type Database = {
       }
       conversations: {
         Row: {
+          archived_at: string | null
           created_at: string
+          current_leaf_id: string | null
+          folder_id: string | null
           id: string
+          import_source_id: string | null
+          imported_from: string | null
+          persona_id: string | null
+          pinned_at: string | null
+          summary: string | null
+          tags: string[]
           title: string
+          title_edited_at: string | null
           type: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
+          current_leaf_id?: string | null
+          folder_id?: string | null
           id?: string
+          import_source_id?: string | null
+          imported_from?: string | null
+          persona_id?: string | null
+          pinned_at?: string | null
+          summary?: string | null
+          tags?: string[]
           title?: string
+          title_edited_at?: string | null
           type?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
+          current_leaf_id?: string | null
+          folder_id?: string | null
           id?: string
+          import_source_id?: string | null
+          imported_from?: string | null
+          persona_id?: string | null
+          pinned_at?: string | null
+          summary?: string | null
+          tags?: string[]
           title?: string
+          title_edited_at?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_current_leaf_id_fkey"
+            columns: ["current_leaf_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_persona_id_fkey"
+            columns: ["persona_id"]
+            isOneToOne: false
+            referencedRelation: "personas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string
+          id: string
+          page: number | null
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedding: string
+          id?: string
+          page?: number | null
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string
+          id?: string
+          page?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          analysis: Json | null
+          created_at: string
+          extracted_text: string | null
+          id: string
+          name: string
+          size: number
+          storage_path: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analysis?: Json | null
+          created_at?: string
+          extracted_text?: string | null
+          id?: string
+          name: string
+          size?: number
+          storage_path?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analysis?: Json | null
+          created_at?: string
+          extracted_text?: string | null
+          id?: string
+          name?: string
+          size?: number
+          storage_path?: string | null
           type?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      generated_images: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          prompt: string
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          prompt: string
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          prompt?: string
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generated_images_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          citations: Json | null
+          content: string
+          conversation_id: string
+          created_at: string
+          files: Json | null
+          id: string
+          model: string | null
+          parent_id: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          citations?: Json | null
+          content: string
+          conversation_id: string
+          created_at?: string
+          files?: Json | null
+          id?: string
+          model?: string | null
+          parent_id?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          citations?: Json | null
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          files?: Json | null
+          id?: string
+          model?: string | null
+          parent_id?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      personas: {
+        Row: {
+          created_at: string
+          default_model: string | null
+          id: string
+          name: string
+          replace_base_prompt: boolean
+          response_style: string
+          system_prompt: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_model?: string | null
+          id?: string
+          name: string
+          replace_base_prompt?: boolean
+          response_style?: string
+          system_prompt: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_model?: string | null
+          id?: string
+          name?: string
+          replace_base_prompt?: boolean
+          response_style?: string
+          system_prompt?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      presentations: {
+        Row: {
+          additional_context: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          settings: Json
+          slides: Json
+          topic: string
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          additional_context?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          settings?: Json
+          slides?: Json
+          topic: string
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          additional_context?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          settings?: Json
+          slides?: Json
+          topic?: string
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "presentations_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      import_conversation: {
+        Args: { conversation: Json; messages: Json }
+        Returns: string
+      }
+      match_document_chunks: {
+        Args: {
+          document_ids: string[]
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+        }
+        Returns: {
+          content: string
+          document_id: string
+          document_name: string
+          id: string
+          page: number
+          similarity: number
+        }[]
+      }
+      search_history: {
+        Args: {
+          conversation_types?: string[]
+          from_date?: string
+          match_count?: number
+          search_query: string
+          to_date?: string
+        }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          conversation_type: string
+          created_at: string
+          message_id: string
+          rank: number
+          snippet: string
+          source: string
+        }[]
+      }
+      shared_branch_message_ids: { Args: never; Returns: string[] }
+      shared_conversation_id: { Args: never; Returns: string }
+      slides_search_text: { Args: { slides: Json }; Returns: string }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,84 @@
+// Builds the attachment section of the chat system context within a fixed token budget
+
+// Rough estimate used across the app; the gateway models average ~4 characters per token
+const CHARS_PER_TOKEN = 4;
+
+export const MAX_ATTACHMENT_CONTEXT_TOKENS = 12000;
+
+// Below this share a file only gets its header and summary, not an unreadable sliver of text
+const MIN_EXCERPT_TOKENS = 150;
+
+export interface AttachmentSource {
+  name: string;
+  extractedText?: string;
+  analysis?: { summary: string };
+}
+
+export interface AttachmentContext {
+  context: string;
+  truncatedFiles: string[];
+}
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Splits the budget evenly, handing whatever small files don't use on to the larger ones
+const allocateBudget = (sizes: number[], budget: number) => {
+  const allocation = new Array<number>(sizes.length).fill(0);
+  let remaining = budget;
+  let pending = sizes.map((_, i) => i);
+
+  while (pending.length > 0 && remaining > 0) {
+    const share = Math.floor(remaining / pending.length);
+    const fits = pending.filter(i => sizes[i] <= share);
+    if (fits.length === 0) {
+      pending.forEach(i => { allocation[i] = share; });
+      break;
+    }
+    fits.forEach(i => {
+      allocation[i] = sizes[i];
+      remaining -= sizes[i];
+    });
+    pending = pending.filter(i => sizes[i] > share);
+  }
+
+  return allocation;
+};
+
+// Keeps the start and end of the text, where headers, conclusions and trailing code usually are
+const truncateText = (text: string, maxTokens: number) => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const headChars = Math.floor(maxChars * 0.7);
+  const tailChars = maxChars - headChars;
+  const omitted = text.length - headChars - tailChars;
+  return `${text.slice(0, headChars)}\n\n[... ${omitted.toLocaleString()} characters omitted ...]\n\n${text.slice(-tailChars)}`;
+};
+
+export const buildAttachmentContext = (
+  files: AttachmentSource[],
+  maxTokens = MAX_ATTACHMENT_CONTEXT_TOKENS
+): AttachmentContext => {
+  const sizes = files.map(f => estimateTokens(f.extractedText ?? ""));
+  const allocation = allocateBudget(sizes, maxTokens);
+  const truncatedFiles: string[] = [];
+
+  const sections = files.map((file, i) => {
+    const text = file.extractedText?.trim();
+    if (!text) {
+      return `[Attached file: ${file.name}]\n(No text could be extracted from this file.)`;
+    }
+
+    if (sizes[i] <= allocation[i]) {
+      return `[Attached file: ${file.name}]\n${text}`;
+    }
+
+    truncatedFiles.push(file.name);
+    const summary = file.analysis?.summary ? `Summary: ${file.analysis.summary}\n` : "";
+    const note = `(Large file: about ${sizes[i].toLocaleString()} tokens, shortened to fit the context window)`;
+    if (allocation[i] < MIN_EXCERPT_TOKENS) {
+      return `[Attached file: ${file.name}]\n${note}\n${summary}[Content omitted; ask the user to re-attach it on its own for details.]`;
+    }
+    return `[Attached file: ${file.name}]\n${note}\n${summary}${truncateText(text, allocation[i])}`;
+  });
+
+  return { context: sections.join("\n\n"), truncatedFiles };
+};
@@ -0,0 +1,2 @@
+// Shared with the chat function so image parts are checked against the same limits on both sides
+export * from "../../supabase/functions/_shared/chat-content.ts";
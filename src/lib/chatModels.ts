@@ -0,0 +1,2 @@
+// Shared with the chat function so the picker only offers models the endpoint accepts
+export * from "../../supabase/functions/_shared/chat-models.ts";
@@ -0,0 +1,225 @@
+import { createElement } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { chatModelLabel } from "@/lib/chatModels";
+import { formatFileSize } from "@/lib/documents";
+import { buildPath, selectionForLeaf } from "@/lib/messageTree";
+
+export type ExportFormat = "markdown" | "pdf" | "json";
+
+export const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "pdf", label: "PDF (print)" },
+  { format: "json", label: "JSON (re-importable)" },
+];
+
+// Identifies our own JSON exports so the importer can tell them apart from other apps' files
+export const EXPORT_FORMAT_ID = "kashif-ai.conversation";
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportedFile {
+  name: string;
+  size: number;
+  type: string;
+  analysis?: { topic: string; subtopics: string[]; summary: string };
+  documentId?: string;
+}
+
+export interface ExportedCitation {
+  index: number;
+  documentId: string;
+  documentName: string;
+  page: number | null;
+  excerpt: string;
+}
+
+export interface ExportedMessage {
+  id: string;
+  parent_id: string | null;
+  role: "user" | "assistant";
+  content: string;
+  model: string | null;
+  files: ExportedFile[];
+  citations: ExportedCitation[];
+  created_at: string;
+}
+
+// Every message is kept, including branches that aren't on screen; current_leaf_id says which branch was shown
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exported_at: string;
+  conversation: {
+    id: string;
+    title: string;
+    summary: string | null;
+    tags: string[];
+    current_leaf_id: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  messages: ExportedMessage[];
+}
+
+export const EXPORTED_MESSAGE_COLUMNS = "id, parent_id, role, content, model, files, citations, created_at";
+
+type ExportedMessageRow = Pick<
+  Database["public"]["Tables"]["messages"]["Row"],
+  "id" | "parent_id" | "role" | "content" | "model" | "files" | "citations" | "created_at"
+>;
+
+export const toExportedMessage = (row: ExportedMessageRow): ExportedMessage => ({
+  id: row.id,
+  parent_id: row.parent_id,
+  role: row.role as ExportedMessage["role"],
+  content: row.content,
+  model: row.model,
+  files: (row.files as unknown as ExportedFile[] | null) ?? [],
+  citations: (row.citations as unknown as ExportedCitation[] | null) ?? [],
+  created_at: row.created_at,
+});
+
+export const fetchConversationExport = async (conversationId: string): Promise<ConversationExport> => {
+  const [{ data: conversation, error: conversationError }, { data: messages, error: messagesError }] = await Promise.all([
+    supabase
+      .from("conversations")
+      .select("id, title, summary, tags, current_leaf_id, created_at, updated_at")
+      .eq("id", conversationId)
+      .single(),
+    supabase
+      .from("messages")
+      .select(EXPORTED_MESSAGE_COLUMNS)
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  if (conversationError) throw conversationError;
+  if (messagesError) throw messagesError;
+
+  return {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    conversation,
+    messages: (messages ?? []).map(toExportedMessage),
+  };
+};
+
+// The branch that was on screen, oldest first
+export const transcriptMessages = (data: ConversationExport) => {
+  const nodes = data.messages.map(m => ({ ...m, parentId: m.parent_id }));
+  const selection = data.conversation.current_leaf_id ? selectionForLeaf(nodes, data.conversation.current_leaf_id) : {};
+  return buildPath(nodes, selection);
+};
+
+export const formatTimestamp = (iso: string) => format(new Date(iso), "MMM d, yyyy h:mm a");
+
+export const messageAuthor = (message: Pick<ExportedMessage, "role" | "model">) =>
+  message.role === "user" ? "You" : `Assistant${message.model ? ` (${chatModelLabel(message.model)})` : ""}`;
+
+// A reply cut off mid code block would swallow the rest of the export, so unbalanced fences are closed
+const closeOpenFence = (content: string) =>
+  (content.match(/^\s*```/gm)?.length ?? 0) % 2 === 1 ? `${content}\n\`\`\`` : content;
+
+// Message content is already Markdown, so code blocks and formatting carry over as written
+export const toMarkdown = (data: ConversationExport) => {
+  const lines = [`# ${data.conversation.title}`, ""];
+  lines.push(`_Started ${formatTimestamp(data.conversation.created_at)} · Exported ${formatTimestamp(data.exported_at)}_`, "");
+  if (data.conversation.tags.length > 0) {
+    lines.push(data.conversation.tags.map(tag => `#${tag}`).join(" "), "");
+  }
+  if (data.conversation.summary) {
+    lines.push(`> ${data.conversation.summary}`, "");
+  }
+
+  for (const message of transcriptMessages(data)) {
+    lines.push("---", "", `### ${messageAuthor(message)}`, `_${formatTimestamp(message.created_at)}_`, "");
+    lines.push(closeOpenFence(message.content.trim()), "");
+
+    if (message.files.length > 0) {
+      lines.push("**Attachments:**", "");
+      message.files.forEach(file => {
+        lines.push(`- ${file.name} (${file.type || "unknown type"}, ${formatFileSize(file.size)})`);
+      });
+      lines.push("");
+    }
+
+    if (message.citations.length > 0) {
+      lines.push("**Sources:**", "");
+      message.citations.forEach(citation => {
+        lines.push(`${citation.index}. ${citation.documentName}${citation.page ? `, page ${citation.page}` : ""}`);
+      });
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n");
+};
+
+export const toJson = (data: ConversationExport) => JSON.stringify(data, null, 2);
+
+export const exportFileName = (title: string, extension: string) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 60);
+  return `${slug || "conversation"}.${extension}`;
+};
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Prints from a hidden frame rather than a new window, which popup blockers would stop after the async fetch.
+// The browser's print dialog offers "Save as PDF".
+const printHtml = (title: string, bodyHtml: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument;
+  const win = frame.contentWindow;
+  if (!doc || !win) {
+    frame.remove();
+    throw new Error("Print frame unavailable");
+  }
+
+  doc.open();
+  doc.write(`<!DOCTYPE html><html><head><meta charset="utf-8"><title></title></head><body>${bodyHtml}</body></html>`);
+  doc.close();
+  // The document title becomes the suggested PDF file name
+  doc.title = title;
+
+  win.addEventListener("afterprint", () => frame.remove());
+  win.focus();
+  win.print();
+};
+
+export const exportConversation = async (conversationId: string, exportFormat: ExportFormat) => {
+  const data = await fetchConversationExport(conversationId);
+
+  if (exportFormat === "markdown") {
+    downloadFile(exportFileName(data.conversation.title, "md"), toMarkdown(data), "text/markdown");
+  } else if (exportFormat === "json") {
+    downloadFile(exportFileName(data.conversation.title, "json"), toJson(data), "application/json");
+  } else {
+    // The print view pulls in react-dom/server, so it only loads when someone prints
+    const [{ renderToStaticMarkup }, { default: PrintableTranscript }] = await Promise.all([
+      import("react-dom/server"),
+      import("@/components/chat/PrintableTranscript"),
+    ]);
+    printHtml(data.conversation.title, renderToStaticMarkup(createElement(PrintableTranscript, { data })));
+  }
+};
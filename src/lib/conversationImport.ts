@@ -0,0 +1,392 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  EXPORT_FORMAT_ID,
+  EXPORT_FORMAT_VERSION,
+  type ConversationExport,
+  type ExportedFile,
+} from "@/lib/conversationExport";
+import { isZipArchive, listZipEntries, readZipEntryText } from "@/lib/zip";
+
+export type ImportSource = "chatgpt" | "claude" | "kashif-ai";
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: "ChatGPT",
+  claude: "Claude",
+  "kashif-ai": "Kashif's AI",
+};
+
+export const IMPORT_FILE_ACCEPT = ".json,.zip,application/json,application/zip";
+
+export interface ImportedMessage {
+  id: string;
+  parent_id: string | null;
+  role: "user" | "assistant";
+  content: string;
+  model: string | null;
+  files: ExportedFile[] | null;
+  created_at: string;
+}
+
+export interface ImportedConversation {
+  // The conversation's id in the source app, used to skip it on a repeated import
+  sourceId: string | null;
+  title: string;
+  summary: string | null;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+  current_leaf_id: string | null;
+  messages: ImportedMessage[];
+}
+
+export interface SkippedItem {
+  title: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  conversations: ImportedConversation[];
+  // Whole conversations or archive files that were left out
+  skipped: SkippedItem[];
+  // Messages or parts of messages left out, counted by reason
+  skippedMessages: Record<string, number>;
+}
+
+class ImportTally {
+  skipped: SkippedItem[] = [];
+  skippedMessages: Record<string, number> = {};
+
+  count(reason: string) {
+    this.skippedMessages[reason] = (this.skippedMessages[reason] ?? 0) + 1;
+  }
+}
+
+const fromUnixSeconds = (seconds: unknown, fallback: string) =>
+  typeof seconds === "number" && Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : fallback;
+
+const fromIsoString = (value: unknown, fallback: string) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : fallback;
+
+// ChatGPT: conversations.json is an array of conversations whose messages form a tree in `mapping`
+interface ChatGPTMessage {
+  author?: { role?: string };
+  create_time?: number | null;
+  content?: { content_type?: string; parts?: unknown[]; text?: string; language?: string };
+  recipient?: string;
+  metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+}
+
+interface ChatGPTNode {
+  parent?: string | null;
+  children?: string[];
+  message?: ChatGPTMessage | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  mapping?: Record<string, ChatGPTNode>;
+}
+
+// Text of a ChatGPT message, or the reason it is left out
+const chatGPTText = (message: ChatGPTMessage, tally: ImportTally): string | null => {
+  const role = message.author?.role;
+  if (role !== "user" && role !== "assistant") {
+    tally.count("System and tool messages");
+    return null;
+  }
+  if (message.metadata?.is_visually_hidden_from_conversation) return null;
+  if (message.recipient && message.recipient !== "all") {
+    tally.count("Tool calls");
+    return null;
+  }
+
+  const content = message.content ?? {};
+  switch (content.content_type) {
+    case "text":
+    case "multimodal_text": {
+      const parts = content.parts ?? [];
+      const images = parts.filter(part => typeof part !== "string").length;
+      for (let i = 0; i < images; i++) tally.count("Images (only text is imported)");
+      return parts.filter((part): part is string => typeof part === "string").join("\n").trim() || null;
+    }
+    case "code":
+      return content.text ? `\`\`\`${content.language && content.language !== "unknown" ? content.language : ""}\n${content.text}\n\`\`\`` : null;
+    case "thoughts":
+    case "reasoning_recap":
+      tally.count("Reasoning summaries");
+      return null;
+    case "user_editable_context":
+      tally.count("Custom instructions");
+      return null;
+    default:
+      tally.count("Unsupported content");
+      return null;
+  }
+};
+
+const parseChatGPTConversation = (raw: ChatGPTConversation, tally: ImportTally): ImportedConversation | null => {
+  const mapping = raw.mapping ?? {};
+  const now = new Date().toISOString();
+  const createdAt = fromUnixSeconds(raw.create_time, now);
+  // Imported message ids by source node id
+  const imported = new Map<string, string>();
+  const messages: ImportedMessage[] = [];
+
+  const nearestImported = (nodeId: string | null | undefined) => {
+    const seen = new Set<string>();
+    while (nodeId && !seen.has(nodeId)) {
+      const id = imported.get(nodeId);
+      if (id) return id;
+      seen.add(nodeId);
+      nodeId = mapping[nodeId]?.parent;
+    }
+    return null;
+  };
+
+  // Depth-first from the roots so every parent is handled before its children
+  const stack = Object.keys(mapping).filter(id => !mapping[id].parent || !mapping[mapping[id].parent!]).reverse();
+  const visited = new Set<string>();
+  while (stack.length > 0) {
+    const nodeId = stack.pop()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+
+    const node = mapping[nodeId];
+    const message = node.message;
+    const text = message ? chatGPTText(message, tally) : null;
+    if (message && text) {
+      const id = crypto.randomUUID();
+      messages.push({
+        id,
+        parent_id: nearestImported(node.parent),
+        role: message.author!.role as ImportedMessage["role"],
+        content: text,
+        model: message.author?.role === "assistant" ? message.metadata?.model_slug ?? null : null,
+        files: null,
+        created_at: fromUnixSeconds(message.create_time, createdAt),
+      });
+      imported.set(nodeId, id);
+    }
+
+    [...(node.children ?? [])].reverse().forEach(child => {
+      if (mapping[child]) stack.push(child);
+    });
+  }
+
+  if (messages.length === 0) return null;
+
+  return {
+    sourceId: raw.conversation_id ?? raw.id ?? null,
+    title: raw.title?.trim() || "Untitled conversation",
+    summary: null,
+    tags: [],
+    created_at: createdAt,
+    updated_at: fromUnixSeconds(raw.update_time, createdAt),
+    current_leaf_id: nearestImported(raw.current_node) ?? messages[messages.length - 1].id,
+    messages,
+  };
+};
+
+// Claude: conversations.json in the Anthropic export archive; messages are in order, optionally with parent links
+interface ClaudeMessage {
+  uuid?: string;
+  parent_message_uuid?: string;
+  sender?: string;
+  text?: string;
+  content?: { type?: string; text?: string }[];
+  created_at?: string;
+  attachments?: { file_name?: string; file_size?: number; file_type?: string }[];
+  files?: { file_name?: string }[];
+}
+
+interface ClaudeConversation {
+  uuid?: string;
+  name?: string;
+  summary?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages?: ClaudeMessage[];
+}
+
+const claudeText = (message: ClaudeMessage, tally: ImportTally) => {
+  if (!Array.isArray(message.content) || message.content.length === 0) return (message.text ?? "").trim();
+
+  const texts: string[] = [];
+  message.content.forEach(block => {
+    if (block.type === "text" && block.text) texts.push(block.text);
+    else if (block.type === "thinking") tally.count("Reasoning summaries");
+    else if (block.type === "tool_use" || block.type === "tool_result") tally.count("Tool calls");
+    else if (block.type !== "text") tally.count("Unsupported content");
+  });
+  return texts.join("\n\n").trim();
+};
+
+// Only the file metadata survives; extracted attachment text isn't brought over
+const claudeFiles = (message: ClaudeMessage): ExportedFile[] => [
+  ...(message.attachments ?? []).map(a => ({ name: a.file_name ?? "attachment", size: a.file_size ?? 0, type: a.file_type ?? "" })),
+  ...(message.files ?? []).map(f => ({ name: f.file_name ?? "file", size: 0, type: "" })),
+];
+
+const parseClaudeConversation = (raw: ClaudeConversation, tally: ImportTally): ImportedConversation | null => {
+  const now = new Date().toISOString();
+  const createdAt = fromIsoString(raw.created_at, now);
+  // Imported message ids by source uuid; skipped messages map to their own nearest imported ancestor
+  const imported = new Map<string, string | null>();
+  const messages: ImportedMessage[] = [];
+  let previousId: string | null = null;
+
+  (raw.chat_messages ?? []).forEach(message => {
+    const parentId = message.parent_message_uuid !== undefined
+      ? imported.get(message.parent_message_uuid) ?? null
+      : previousId;
+
+    const role = message.sender === "human" ? "user" : message.sender === "assistant" ? "assistant" : null;
+    const content = role ? claudeText(message, tally) : "";
+    const files = claudeFiles(message);
+
+    if (!role || (!content && files.length === 0)) {
+      tally.count(role ? "Empty messages" : "System and tool messages");
+      if (message.uuid) imported.set(message.uuid, parentId);
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    messages.push({
+      id,
+      parent_id: parentId,
+      role,
+      content,
+      model: null,
+      files: files.length > 0 ? files : null,
+      created_at: fromIsoString(message.created_at, createdAt),
+    });
+    if (message.uuid) imported.set(message.uuid, id);
+    previousId = id;
+  });
+
+  if (messages.length === 0) return null;
+
+  return {
+    sourceId: raw.uuid ?? null,
+    title: raw.name?.trim() || "Untitled conversation",
+    summary: raw.summary?.trim() || null,
+    tags: [],
+    created_at: createdAt,
+    updated_at: fromIsoString(raw.updated_at, createdAt),
+    current_leaf_id: messages[messages.length - 1].id,
+    messages,
+  };
+};
+
+// Our own JSON export: already in our shape, but ids are replaced so the copy never collides with the original
+const parseOwnExport = (data: ConversationExport): ImportedConversation => {
+  const ids = new Map(data.messages.map(m => [m.id, crypto.randomUUID()]));
+  return {
+    sourceId: data.conversation.id,
+    title: data.conversation.title,
+    summary: data.conversation.summary,
+    tags: data.conversation.tags ?? [],
+    created_at: data.conversation.created_at,
+    updated_at: data.conversation.updated_at,
+    current_leaf_id: data.conversation.current_leaf_id ? ids.get(data.conversation.current_leaf_id) ?? null : null,
+    messages: data.messages.map(m => ({
+      id: ids.get(m.id)!,
+      parent_id: m.parent_id ? ids.get(m.parent_id) ?? null : null,
+      role: m.role,
+      content: m.content,
+      model: m.model,
+      files: m.files.length > 0 ? m.files : null,
+      created_at: m.created_at,
+    })),
+  };
+};
+
+const parseConversations = <T extends { title?: string; name?: string }>(
+  items: T[],
+  parse: (raw: T, tally: ImportTally) => ImportedConversation | null,
+  tally: ImportTally
+) => {
+  const conversations: ImportedConversation[] = [];
+  items.forEach(raw => {
+    const title = raw.title || raw.name || "Untitled conversation";
+    try {
+      const conversation = parse(raw, tally);
+      if (conversation) conversations.push(conversation);
+      else tally.skipped.push({ title, reason: "No text messages" });
+    } catch (error) {
+      console.error('Error parsing imported conversation:', error);
+      tally.skipped.push({ title, reason: "Could not be read" });
+    }
+  });
+  return conversations;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const parseImportFile = async (file: File): Promise<ParsedImport> => {
+  const buffer = await file.arrayBuffer();
+  const tally = new ImportTally();
+  let text: string;
+
+  if (isZipArchive(buffer)) {
+    const entries = listZipEntries(buffer);
+    const conversationsEntry = entries.find(e => e.name.split("/").pop() === "conversations.json");
+    if (!conversationsEntry) throw new Error("This archive has no conversations.json");
+
+    if (entries.some(e => e.name.split("/").pop() === "projects.json")) {
+      tally.skipped.push({ title: "projects.json", reason: "Projects aren't imported" });
+    }
+    text = await readZipEntryText(buffer, conversationsEntry);
+  } else {
+    text = new TextDecoder().decode(buffer);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  let source: ImportSource;
+  let conversations: ImportedConversation[];
+  if (isRecord(data) && data.format === EXPORT_FORMAT_ID) {
+    if (typeof data.version !== "number" || data.version > EXPORT_FORMAT_VERSION) {
+      throw new Error("This export was made by a newer version of the app");
+    }
+    source = "kashif-ai";
+    conversations = [parseOwnExport(data as unknown as ConversationExport)];
+  } else if (Array.isArray(data) && data.some(item => isRecord(item) && "mapping" in item)) {
+    source = "chatgpt";
+    conversations = parseConversations(data.filter(isRecord) as ChatGPTConversation[], parseChatGPTConversation, tally);
+  } else if (Array.isArray(data) && data.some(item => isRecord(item) && "chat_messages" in item)) {
+    source = "claude";
+    conversations = parseConversations(data.filter(isRecord) as ClaudeConversation[], parseClaudeConversation, tally);
+  } else if (Array.isArray(data) && data.length === 0) {
+    throw new Error("The export contains no conversations");
+  } else {
+    throw new Error("Unrecognized file. Use a ChatGPT conversations.json, an Anthropic export archive or a JSON export from this app.");
+  }
+
+  return { source, conversations, skipped: tally.skipped, skippedMessages: tally.skippedMessages };
+};
+
+// Returns false when the conversation was already imported
+export const importConversation = async (conversation: ImportedConversation, source: ImportSource) => {
+  const { messages, sourceId, ...fields } = conversation;
+  const { data, error } = await supabase.rpc("import_conversation", {
+    conversation: { ...fields, imported_from: source, import_source_id: sourceId } as unknown as Json,
+    messages: messages as unknown as Json,
+  });
+
+  if (error) throw error;
+  return data !== null;
+};
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type Folder = Tables<"folders">;
+
+export const MAX_FOLDER_NAME_LENGTH = 60;
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS = 10;
+
+// Fired after pins, folders or archive state change so the sidebar can refresh its pinned list
+export const CONVERSATIONS_CHANGED_EVENT = "conversations-changed";
+
+export const notifyConversationsChanged = () => {
+  window.dispatchEvent(new Event(CONVERSATIONS_CHANGED_EVENT));
+};
+
+export const conversationPath = (conversation: { id: string; type: string }) => {
+  switch (conversation.type) {
+    case "ppt": return `/ppt/${conversation.id}`;
+    case "image": return `/images/${conversation.id}`;
+    case "video": return "/video";
+    default: return `/chat/${conversation.id}`;
+  }
+};
+
+// Lowercased, trimmed and de-duplicated; "#" prefixes are dropped so "#Work" and "work" are the same tag
+export const normalizeTags = (tags: string[]) =>
+  Array.from(
+    new Set(
+      tags
+        .map(tag => tag.trim().replace(/^#+/, "").toLowerCase().substring(0, MAX_TAG_LENGTH))
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_TAGS);
+
+// A title set here is the user's own, so generated titles no longer replace it
+export const updateConversation = async (
+  id: string,
+  patch: Pick<TablesUpdate<"conversations">, "title" | "folder_id" | "tags" | "pinned_at" | "archived_at">
+) => {
+  const { error } = await supabase
+    .from("conversations")
+    .update(patch.title !== undefined ? { ...patch, title_edited_at: new Date().toISOString() } : patch)
+    .eq("id", id);
+  if (error) throw error;
+  notifyConversationsChanged();
+};
+
+export const fetchFolders = async (): Promise<Folder[]> => {
+  const { data, error } = await supabase
+    .from("folders")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const createFolder = async (userId: string, name: string): Promise<Folder> => {
+  const { data, error } = await supabase
+    .from("folders")
+    .insert([{ user_id: userId, name }])
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const renameFolder = async (id: string, name: string): Promise<Folder> => {
+  const { data, error } = await supabase
+    .from("folders")
+    .update({ name })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteFolder = async (id: string) => {
+  const { error } = await supabase.from("folders").delete().eq("id", id);
+  if (error) throw error;
+  notifyConversationsChanged();
+};
@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export const DOCUMENT_BUCKET = "documents";
+
+export type LibraryDocument = Tables<"documents">;
+export type LibraryDocumentSummary = Omit<LibraryDocument, "extracted_text">;
+
+export interface DocumentAnalysis {
+  topic: string;
+  subtopics: string[];
+  summary: string;
+  insights?: string[];
+}
+
+// Uploads the file into the user's folder and records it in the documents table
+export const saveDocument = async (userId: string, file: File) => {
+  const documentId = crypto.randomUUID();
+  const storagePath = `${userId}/${documentId}/${file.name.replace(/[^\w.-]+/g, "_")}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENT_BUCKET)
+    .upload(storagePath, file, { contentType: file.type || undefined });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from("documents").insert([{
+    id: documentId,
+    user_id: userId,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    storage_path: storagePath,
+  }]);
+
+  if (error) {
+    await supabase.storage.from(DOCUMENT_BUCKET).remove([storagePath]);
+    throw error;
+  }
+
+  return documentId;
+};
+
+export const updateDocumentContent = async (
+  documentId: string,
+  extractedText: string | null,
+  analysis: DocumentAnalysis | null
+) => {
+  const { error } = await supabase
+    .from("documents")
+    .update({ extracted_text: extractedText, analysis: analysis as unknown as Json })
+    .eq("id", documentId);
+
+  if (error) throw error;
+};
+
+// Chunks and embeds extracted text so the chat can retrieve passages from it later
+export const indexDocument = async (documentId: string, pages: { page: number | null; text: string }[]) => {
+  const { error } = await supabase.functions.invoke("index-document", {
+    body: { documentId, pages },
+  });
+
+  if (error) throw error;
+};
+
+export const isDocumentIndexed = async (documentId: string) => {
+  const { count, error } = await supabase
+    .from("document_chunks")
+    .select("id", { count: "exact", head: true })
+    .eq("document_id", documentId);
+
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+// Text of documents attached to earlier messages, which is stored with the document rather than the message
+export const fetchExtractedTexts = async (documentIds: string[]): Promise<Map<string, string>> => {
+  if (documentIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id, extracted_text")
+    .in("id", documentIds);
+
+  if (error) throw error;
+  return new Map((data ?? []).filter(d => d.extracted_text).map(d => [d.id, d.extracted_text as string]));
+};
+
+// extracted_text is left out; it can be large and list views don't need it
+export const fetchDocuments = async (): Promise<LibraryDocumentSummary[]> => {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id, user_id, name, type, size, storage_path, analysis, created_at, updated_at")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const deleteDocument = async (document: Pick<LibraryDocument, "id" | "storage_path">) => {
+  const { error } = await supabase.from("documents").delete().eq("id", document.id);
+  if (error) throw error;
+
+  if (document.storage_path) {
+    const { error: storageError } = await supabase.storage.from(DOCUMENT_BUCKET).remove([document.storage_path]);
+    if (storageError) console.error("Error removing document file:", storageError);
+  }
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+};
@@ -0,0 +1,2 @@
+// Shared with analyze-file so the app and the edge function agree on which files have text to extract
+export * from "../../supabase/functions/_shared/file-types.ts";
@@ -0,0 +1,48 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type SearchSource = "title" | "message" | "slides" | "image";
+
+export interface HistorySearchResult {
+  conversation_id: string;
+  conversation_type: string;
+  conversation_title: string;
+  source: SearchSource;
+  // Only set for message hits
+  message_id: string | null;
+  snippet: string;
+  rank: number;
+  created_at: string;
+}
+
+export interface HistorySearchFilters {
+  types?: string[];
+  from?: Date;
+  // Exclusive upper bound
+  to?: Date;
+}
+
+export const searchHistory = async (
+  query: string,
+  { types, from, to }: HistorySearchFilters = {}
+): Promise<HistorySearchResult[]> => {
+  const { data, error } = await supabase.rpc("search_history", {
+    search_query: query,
+    conversation_types: types?.length ? types : undefined,
+    from_date: from?.toISOString(),
+    to_date: to?.toISOString(),
+  });
+
+  if (error) throw error;
+  return (data ?? []) as HistorySearchResult[];
+};
+
+// search_history wraps matched words in ⟦ ⟧ rather than HTML, so snippets never need to be rendered as markup
+export const highlightSegments = (snippet: string) =>
+  snippet
+    .split(/(⟦[^⟧]*⟧)/)
+    .filter(Boolean)
+    .map(part =>
+      part.startsWith("⟦") && part.endsWith("⟧")
+        ? { text: part.slice(1, -1), match: true }
+        : { text: part, match: false }
+    );
@@ -0,0 +1,70 @@
+// Messages form a tree: editing a question or regenerating an answer adds a sibling
+// instead of replacing it. The conversation shown is one root-to-leaf path through it.
+
+export interface TreeMessage {
+  id: string;
+  parentId: string | null;
+}
+
+// Which child is shown under each parent, keyed by parent id (ROOT_KEY for first messages)
+export type BranchSelection = Record<string, string>;
+
+export const ROOT_KEY = "root";
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT_KEY;
+
+// Siblings in creation order; nodes are kept in the order they were created or loaded
+export const childrenOf = <T extends TreeMessage>(nodes: T[], parentId: string | null) =>
+  nodes.filter(n => n.parentId === parentId);
+
+// Follows the selected child at each level, defaulting to the newest. A selection whose
+// message doesn't exist yet (an answer still waiting for its first token) ends the path.
+export const buildPath = <T extends TreeMessage>(nodes: T[], selection: BranchSelection): T[] => {
+  const path: T[] = [];
+  let parentId: string | null = null;
+
+  for (;;) {
+    const children = childrenOf(nodes, parentId);
+    const selectedId = selection[parentKey(parentId)];
+    const next = selectedId ? children.find(c => c.id === selectedId) : children[children.length - 1];
+    if (!next) break;
+
+    path.push(next);
+    parentId = next.id;
+  }
+
+  return path;
+};
+
+// Selection that shows the branch ending at leafId
+export const selectionForLeaf = <T extends TreeMessage>(nodes: T[], leafId: string): BranchSelection => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const selection: BranchSelection = {};
+
+  let node = byId.get(leafId);
+  while (node) {
+    selection[parentKey(node.parentId)] = node.id;
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+
+  return selection;
+};
+
+export const selectBranch = (selection: BranchSelection, node: TreeMessage): BranchSelection => ({
+  ...selection,
+  [parentKey(node.parentId)]: node.id,
+});
+
+// Drops a selection made for a message that never arrived, so the path falls back to the newest sibling
+export const clearBranch = (selection: BranchSelection, node: TreeMessage): BranchSelection => {
+  const key = parentKey(node.parentId);
+  if (selection[key] !== node.id) return selection;
+  const next = { ...selection };
+  delete next[key];
+  return next;
+};
+
+export const siblingPosition = <T extends TreeMessage>(nodes: T[], node: T) => {
+  const siblings = childrenOf(nodes, node.parentId);
+  return { siblings, index: siblings.findIndex(s => s.id === node.id) };
+};
@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Response styles and limits are shared with the chat function, which builds the prompt
+export * from "../../supabase/functions/_shared/personas.ts";
+
+export type Persona = Tables<"personas">;
+
+export type PersonaInput = Pick<
+  Persona,
+  "name" | "system_prompt" | "default_model" | "response_style" | "replace_base_prompt"
+>;
+
+export const fetchPersonas = async (): Promise<Persona[]> => {
+  const { data, error } = await supabase
+    .from("personas")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const createPersona = async (userId: string, input: PersonaInput): Promise<Persona> => {
+  const { data, error } = await supabase
+    .from("personas")
+    .insert([{ ...input, user_id: userId }])
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updatePersona = async (id: string, input: PersonaInput): Promise<Persona> => {
+  const { data, error } = await supabase
+    .from("personas")
+    .update(input)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deletePersona = async (id: string) => {
+  const { error } = await supabase.from("personas").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,2 @@
+// The PPTSettings schema lives with the edge functions so generate-ppt validates against the same rules
+export * from "../../supabase/functions/_shared/ppt-settings.ts";
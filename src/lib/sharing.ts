@@ -0,0 +1,153 @@
+import { createClient } from "@supabase/supabase-js";
+import { addDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { EXPORTED_MESSAGE_COLUMNS, toExportedMessage, type ExportedMessage } from "@/lib/conversationExport";
+import { defaultPPTSettings, type PPTSettings, type Slide } from "@/lib/pptSettings";
+
+export type ShareLink = Tables<"share_links">;
+
+export const SHARE_EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+];
+
+const SHARE_TOKEN_HEADER = "x-share-token";
+const IMAGE_BUCKET = "generated-images";
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const isShareLinkActive = (link: Pick<ShareLink, "revoked_at" | "expires_at">) =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date());
+
+export const fetchShareLinks = async (conversationId: string): Promise<ShareLink[]> => {
+  const { data, error } = await supabase
+    .from("share_links")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const createShareLink = async (
+  userId: string,
+  conversationId: string,
+  expiresInDays: number | null
+): Promise<ShareLink> => {
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert([{
+      user_id: userId,
+      conversation_id: conversationId,
+      expires_at: expiresInDays ? addDays(new Date(), expiresInDays).toISOString() : null,
+    }])
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const revokeShareLink = async (id: string) => {
+  const { error } = await supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+export interface SharedImage {
+  id: string;
+  prompt: string;
+  imageUrl: string;
+  createdAt: string;
+}
+
+export type SharedContent = { title: string; createdAt: string } & (
+  | { type: "chat"; messages: ExportedMessage[] }
+  | { type: "ppt"; slides: Slide[]; theme: PPTSettings["theme"] }
+  | { type: "image"; images: SharedImage[] }
+);
+
+// Visitors read as anonymous users; RLS lets the token header through to the one shared conversation only
+const createSharedClient = (token: string) =>
+  createClient<Database>(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false, storageKey: "shared-link" },
+    global: { headers: { [SHARE_TOKEN_HEADER]: token } },
+  });
+
+// Null when the link doesn't exist, was revoked or has expired
+export const fetchSharedContent = async (token: string): Promise<SharedContent | null> => {
+  const client = createSharedClient(token);
+
+  const { data: conversation, error } = await client
+    .from("conversations")
+    .select("id, type, title, created_at")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!conversation) return null;
+
+  const shared = { title: conversation.title, createdAt: conversation.created_at };
+
+  if (conversation.type === "ppt") {
+    const { data: presentation, error: presentationError } = await client
+      .from("presentations")
+      .select("slides, settings")
+      .eq("conversation_id", conversation.id)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (presentationError) throw presentationError;
+    const settings = presentation?.settings as Partial<PPTSettings> | undefined;
+    return {
+      ...shared,
+      type: "ppt",
+      slides: (presentation?.slides as unknown as Slide[] | undefined) ?? [],
+      theme: settings?.theme ?? defaultPPTSettings.theme,
+    };
+  }
+
+  if (conversation.type === "image") {
+    const { data: rows, error: imagesError } = await client
+      .from("generated_images")
+      .select("id, prompt, storage_path, created_at")
+      .eq("conversation_id", conversation.id)
+      .order("created_at", { ascending: false });
+
+    if (imagesError) throw imagesError;
+    if (!rows || rows.length === 0) return { ...shared, type: "image", images: [] };
+
+    const { data: signed, error: signError } = await client.storage
+      .from(IMAGE_BUCKET)
+      .createSignedUrls(rows.map(row => row.storage_path), 60 * 60);
+
+    if (signError) throw signError;
+    return {
+      ...shared,
+      type: "image",
+      images: rows.map((row, index) => ({
+        id: row.id,
+        prompt: row.prompt,
+        imageUrl: signed?.[index]?.signedUrl ?? "",
+        createdAt: row.created_at,
+      })),
+    };
+  }
+
+  // RLS only returns the branch that was on screen, which reads in creation order
+  const { data: messages, error: messagesError } = await client
+    .from("messages")
+    .select(EXPORTED_MESSAGE_COLUMNS)
+    .eq("conversation_id", conversation.id)
+    .order("created_at", { ascending: true });
+
+  if (messagesError) throw messagesError;
+  return { ...shared, type: "chat", messages: (messages ?? []).map(toExportedMessage) };
+};
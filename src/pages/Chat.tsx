@@ -1,14 +1,18 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import AppLayout from "@/components/layout/AppLayout";
 import ChatInterface from "@/components/chat/ChatInterface";
+import ExportMenu from "@/components/chat/ExportMenu";
+import ShareButton from "@/components/share/ShareButton";
 import { useAuth } from "@/hooks/useAuth";
 
 const Chat = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
+  const { id: conversationId } = useParams<{ id: string }>();
+  // Set when opening a search result so the chat shows that message
+  const [searchParams] = useSearchParams();
   const [voiceEnabled, setVoiceEnabled] = useState(false);
-  const [currentConversationId, setCurrentConversationId] = useState("1");
 
   useEffect(() => {
     if (!loading && !user) {
@@ -33,8 +37,19 @@ const Chat = () => {
       voiceEnabled={voiceEnabled} 
       onVoiceToggle={() => setVoiceEnabled(!voiceEnabled)}
       showVoiceToggle
+      headerActions={conversationId && (
+        <>
+          <ShareButton conversationId={conversationId} />
+          <ExportMenu conversationId={conversationId} />
+        </>
+      )}
     >
-      <ChatInterface conversationId={currentConversationId} voiceEnabled={voiceEnabled} />
+      <ChatInterface
+        conversationId={conversationId ?? null}
+        focusMessageId={searchParams.get('message')}
+        voiceEnabled={voiceEnabled}
+        onConversationCreated={(id) => navigate(`/chat/${id}`, { replace: true })}
+      />
     </AppLayout>
   );
 };
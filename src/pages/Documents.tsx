@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import AppLayout from "@/components/layout/AppLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FolderOpen, FileText, ImageIcon, Trash2, ExternalLink, Search, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DOCUMENT_BUCKET,
+  deleteDocument,
+  fetchDocuments,
+  formatFileSize,
+  type DocumentAnalysis,
+  type LibraryDocumentSummary,
+} from "@/lib/documents";
+
+const Documents = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<LibraryDocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const loadDocuments = async () => {
+      try {
+        const data = await fetchDocuments();
+        if (!cancelled) setDocuments(data);
+      } catch (error) {
+        console.error('Error fetching documents:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadDocuments();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleOpen = async (document: LibraryDocumentSummary) => {
+    if (!document.storage_path) return;
+
+    setOpeningId(document.id);
+    try {
+      const { data, error } = await supabase.storage
+        .from(DOCUMENT_BUCKET)
+        .createSignedUrl(document.storage_path, 60);
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error opening document:', error);
+      toast({ title: "Error", description: "Failed to open document", variant: "destructive" });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleDelete = async (document: LibraryDocumentSummary) => {
+    try {
+      await deleteDocument(document);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+      toast({ title: "Deleted", description: "Document removed from your library" });
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      toast({ title: "Error", description: "Failed to delete", variant: "destructive" });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filteredDocuments = normalizedQuery
+    ? documents.filter(doc => {
+        const analysis = doc.analysis as unknown as DocumentAnalysis | null;
+        return [doc.name, analysis?.topic, analysis?.summary]
+          .some(value => value?.toLowerCase().includes(normalizedQuery));
+      })
+    : documents;
+
+  return (
+    <AppLayout>
+      <div className="p-4 md:p-6 space-y-6 max-w-4xl mx-auto">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-bold">Documents</h2>
+          <p className="text-muted-foreground">Files you've uploaded, ready to attach to any chat</p>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name, topic or summary..."
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <p className="text-muted-foreground">Loading...</p>
+          </div>
+        ) : documents.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <FolderOpen className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+              <p className="text-muted-foreground mb-4">No documents yet. Files you attach in chat are saved here.</p>
+              <Button onClick={() => navigate('/chat')}>Start a Chat</Button>
+            </CardContent>
+          </Card>
+        ) : filteredDocuments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No documents match "{query.trim()}"</p>
+        ) : (
+          <div className="space-y-2">
+            {filteredDocuments.map((document) => {
+              const Icon = document.type.startsWith('image/') ? ImageIcon : FileText;
+              const analysis = document.analysis as unknown as DocumentAnalysis | null;
+              return (
+                <Card key={document.id}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className="p-2 rounded-lg bg-primary/10">
+                      <Icon className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{document.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(document.size)} • {format(new Date(document.created_at), 'MMM d, h:mm a')}
+                      </p>
+                      {analysis?.topic && (
+                        <p className="text-xs text-muted-foreground truncate mt-1">Topic: {analysis.topic}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={!document.storage_path || openingId === document.id}
+                        onClick={() => handleOpen(document)}
+                      >
+                        {openingId === document.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <ExternalLink className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(document)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Documents;
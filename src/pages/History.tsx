@@ -1,28 +1,126 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import AppLayout from "@/components/layout/AppLayout";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MessageSquare, FileText, Video, ImageIcon, Trash2, ExternalLink } from "lucide-react";
-import { format, isToday, isYesterday, isThisWeek, isThisMonth } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  MessageSquare,
+  FileText,
+  Video,
+  ImageIcon,
+  ExternalLink,
+  Pencil,
+  Search,
+  Loader2,
+  X,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  MoreHorizontal,
+  Tag,
+  FolderInput,
+  FolderCog,
+  Download,
+  Upload,
+  Share2,
+} from "lucide-react";
+import { addDays, format, isToday, isYesterday, isThisWeek, isThisMonth, parseISO, startOfDay } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { highlightSegments, searchHistory, type HistorySearchResult, type SearchSource } from "@/lib/historySearch";
+import { conversationPath, fetchFolders, updateConversation, type Folder } from "@/lib/conversations";
+import { EXPORT_OPTIONS, exportConversation, type ExportFormat } from "@/lib/conversationExport";
+import FolderDialog from "@/components/history/FolderDialog";
+import TagEditorDialog from "@/components/history/TagEditorDialog";
+import ImportDialog from "@/components/history/ImportDialog";
+import ShareDialog from "@/components/share/ShareDialog";
+import { IMPORT_SOURCE_LABELS, type ImportSource } from "@/lib/conversationImport";
 
 interface Conversation {
   id: string;
   title: string;
+  summary: string | null;
   type: string;
+  folder_id: string | null;
+  tags: string[];
+  pinned_at: string | null;
+  archived_at: string | null;
+  imported_from: string | null;
   created_at: string;
   updated_at: string;
 }
 
+type ConversationPatch = Partial<Pick<Conversation, 'title' | 'folder_id' | 'tags' | 'pinned_at' | 'archived_at'>>;
+
+// "all" and "none" (unfiled) next to folder ids
+const ALL_FOLDERS = 'all';
+const NO_FOLDER = 'none';
+
+const TYPE_FILTERS = [
+  { id: 'all', label: 'All' },
+  { id: 'chat', label: 'Chats' },
+  { id: 'ppt', label: 'Presentations' },
+  { id: 'image', label: 'Images' },
+  { id: 'video', label: 'Videos' },
+];
+
+const SOURCE_LABELS: Record<SearchSource, string> = {
+  title: 'Title',
+  message: 'Message',
+  slides: 'Slides',
+  image: 'Image prompt',
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Date inputs give whole days; the end date is inclusive, so the range runs to the start of the next day
+const dateRange = (fromDate: string, toDate: string) => ({
+  from: fromDate ? startOfDay(parseISO(fromDate)) : undefined,
+  to: toDate ? addDays(startOfDay(parseISO(toDate)), 1) : undefined,
+});
+
 const History = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  // Escape blurs the input too; this stops that blur from saving
+  const cancelRenameRef = useRef(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  // null while no search is active
+  const [searchResults, setSearchResults] = useState<HistorySearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [showFolderDialog, setShowFolderDialog] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [taggingConversation, setTaggingConversation] = useState<Conversation | null>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [sharingConversation, setSharingConversation] = useState<Conversation | null>(null);
+  const userId = user?.id;
 
   useEffect(() => {
     if (!loading && !user) {
@@ -36,6 +134,58 @@ const History = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!userId || !query) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await searchHistory(query, {
+          types: typeFilter === 'all' ? undefined : [typeFilter],
+          ...dateRange(fromDate, toDate),
+        });
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Error searching history:', error);
+        if (!cancelled) {
+          toast({ title: "Error", description: "Search failed", variant: "destructive" });
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [userId, searchQuery, typeFilter, fromDate, toDate, toast]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const loadFolders = async () => {
+      try {
+        const data = await fetchFolders();
+        if (!cancelled) setFolders(data);
+      } catch (error) {
+        console.error('Error loading folders:', error);
+      }
+    };
+
+    loadFolders();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   const fetchConversations = async () => {
     try {
       const { data, error } = await supabase
@@ -52,35 +202,103 @@ const History = () => {
     }
   };
 
-  const handleDelete = async (id: string) => {
+  // Saves an organisation change and mirrors it in the list
+  const applyUpdate = async (conversation: Conversation, patch: ConversationPatch, failure: string) => {
     try {
-      const { error } = await supabase
-        .from('conversations')
-        .delete()
-        .eq('id', id);
+      await updateConversation(conversation.id, patch);
+      setConversations(prev => prev.map(c => (c.id === conversation.id ? { ...c, ...patch } : c)));
+      return true;
+    } catch (error) {
+      console.error('Error updating conversation:', error);
+      toast({ title: "Error", description: failure, variant: "destructive" });
+      return false;
+    }
+  };
 
-      if (error) throw error;
+  const handleTogglePin = (conversation: Conversation) =>
+    applyUpdate(conversation, { pinned_at: conversation.pinned_at ? null : new Date().toISOString() }, "Failed to update pin");
+
+  const handleMove = (conversation: Conversation, folderId: string | null) =>
+    applyUpdate(conversation, { folder_id: folderId }, "Failed to move");
+
+  const handleSaveTags = (conversation: Conversation, tags: string[]) =>
+    applyUpdate(conversation, { tags }, "Failed to save tags");
 
-      setConversations(prev => prev.filter(c => c.id !== id));
-      toast({ title: "Deleted", description: "Conversation removed from history" });
+  // Archiving is a soft delete: the conversation leaves the list and search but can be restored
+  const handleArchive = async (conversation: Conversation) => {
+    const archived = await applyUpdate(
+      conversation,
+      { archived_at: new Date().toISOString(), pinned_at: null },
+      "Failed to archive"
+    );
+    if (archived) {
+      toast({ title: "Archived", description: "Conversation moved to the archive. You can restore it from there." });
+    }
+  };
+
+  const handleRestore = async (conversation: Conversation) => {
+    const restored = await applyUpdate(conversation, { archived_at: null }, "Failed to restore");
+    if (restored) {
+      toast({ title: "Restored", description: "Conversation is back in your history" });
+    }
+  };
+
+  const handleExport = async (conversation: Conversation, exportFormat: ExportFormat) => {
+    try {
+      await exportConversation(conversation.id, exportFormat);
     } catch (error) {
-      console.error('Error deleting conversation:', error);
-      toast({ title: "Error", description: "Failed to delete", variant: "destructive" });
+      console.error('Error exporting conversation:', error);
+      toast({ title: "Error", description: "Failed to export conversation", variant: "destructive" });
     }
   };
 
-  const handleOpen = (conversation: Conversation) => {
-    if (conversation.type === 'chat') {
-      navigate('/chat');
-    } else if (conversation.type === 'ppt') {
-      navigate('/ppt');
-    } else if (conversation.type === 'video') {
-      navigate('/video');
-    } else if (conversation.type === 'image') {
-      navigate('/images');
+  const handleFoldersChange = (next: Folder[]) => {
+    setFolders(next);
+    // Deleted folders leave their conversations unfiled
+    setConversations(prev => prev.map(c => (c.folder_id && !next.some(f => f.id === c.folder_id) ? { ...c, folder_id: null } : c)));
+    if (folderFilter !== ALL_FOLDERS && folderFilter !== NO_FOLDER && !next.some(f => f.id === folderFilter)) {
+      setFolderFilter(ALL_FOLDERS);
     }
   };
 
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title);
+  };
+
+  const handleRename = async (conversation: Conversation) => {
+    const title = renameValue.trim().substring(0, 100);
+    setRenamingId(null);
+    if (cancelRenameRef.current) {
+      cancelRenameRef.current = false;
+      return;
+    }
+    if (!title || title === conversation.title) return;
+
+    await applyUpdate(conversation, { title }, "Failed to rename");
+  };
+
+  const handleOpen = (conversation: Pick<Conversation, 'id' | 'type'>) => {
+    navigate(conversationPath(conversation));
+  };
+
+  // Message hits open the chat on the branch that contains the message
+  const handleOpenResult = (result: HistorySearchResult) => {
+    if (result.conversation_type === 'chat' && result.message_id) {
+      navigate(`/chat/${result.conversation_id}?message=${result.message_id}`);
+    } else {
+      handleOpen({ id: result.conversation_id, type: result.conversation_type });
+    }
+  };
+
+  const clearFilters = () => {
+    setTypeFilter('all');
+    setFromDate("");
+    setToDate("");
+    setFolderFilter(ALL_FOLDERS);
+    setTagFilter(null);
+  };
+
   const getIcon = (type: string) => {
     switch (type) {
       case 'chat': return MessageSquare;
@@ -140,17 +358,186 @@ const History = () => {
     return null;
   }
 
-  const groupedConversations = groupConversations(conversations);
+  const { from, to } = dateRange(fromDate, toDate);
+  const filteredConversations = conversations.filter(c => {
+    const date = new Date(c.updated_at);
+    const inFolder = folderFilter === ALL_FOLDERS
+      || (folderFilter === NO_FOLDER ? !c.folder_id : c.folder_id === folderFilter);
+    return (showArchived ? !!c.archived_at : !c.archived_at)
+      && (typeFilter === 'all' || c.type === typeFilter)
+      && inFolder
+      && (!tagFilter || c.tags.includes(tagFilter))
+      && (!from || date >= from)
+      && (!to || date < to);
+  });
+  // Pinned conversations sit above the date groups, most recently pinned first
+  const pinnedConversations = showArchived
+    ? []
+    : filteredConversations
+        .filter(c => c.pinned_at)
+        .sort((a, b) => (b.pinned_at ?? '').localeCompare(a.pinned_at ?? ''));
+  const groupedConversations = [
+    ...(pinnedConversations.length > 0 ? [{ label: 'Pinned', items: pinnedConversations }] : []),
+    ...groupConversations(filteredConversations.filter(c => showArchived || !c.pinned_at)),
+  ];
+  const archivedCount = conversations.filter(c => c.archived_at).length;
+  const knownTags = Array.from(new Set(conversations.flatMap(c => c.tags))).sort();
+  const folderName = (id: string | null) => folders.find(f => f.id === id)?.name;
+  const hasFilters = typeFilter !== 'all' || !!fromDate || !!toDate || folderFilter !== ALL_FOLDERS || !!tagFilter;
 
   return (
     <AppLayout>
       <div className="p-4 md:p-6 space-y-6 max-w-4xl mx-auto">
-        <div>
-          <h2 className="text-2xl md:text-3xl font-bold">History</h2>
-          <p className="text-muted-foreground">Your recent activities</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl md:text-3xl font-bold">History</h2>
+            <p className="text-muted-foreground">Your recent activities</p>
+          </div>
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search chats, slides and image prompts..."
+              className="pl-9 pr-9"
+            />
+            {isSearching && (
+              <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            {TYPE_FILTERS.map(filter => (
+              <Button
+                key={filter.id}
+                variant={typeFilter === filter.id ? 'default' : 'outline'}
+                size="sm"
+                className="rounded-full"
+                onClick={() => setTypeFilter(filter.id)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+            <div className="flex items-end gap-2 ml-auto">
+              <div>
+                <Label className="text-xs">From</Label>
+                <Input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className="h-9 w-auto"
+                />
+              </div>
+              <div>
+                <Label className="text-xs">To</Label>
+                <Input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className="h-9 w-auto"
+                />
+              </div>
+              {hasFilters && (
+                <Button variant="ghost" size="icon" className="h-9 w-9" onClick={clearFilters} title="Clear filters">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {searchResults === null && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={folderFilter} onValueChange={setFolderFilter}>
+                <SelectTrigger className="h-9 w-auto min-w-[10rem]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+                  <SelectItem value={NO_FOLDER}>Unfiled</SelectItem>
+                  {folders.map(folder => (
+                    <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => setShowFolderDialog(true)} title="Manage folders">
+                <FolderCog className="h-4 w-4" />
+              </Button>
+              {tagFilter && (
+                <Badge variant="secondary" className="gap-1 pr-1">
+                  <Tag className="h-3 w-3" />
+                  {tagFilter}
+                  <button
+                    onClick={() => setTagFilter(null)}
+                    className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+                    aria-label="Clear tag filter"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
+              <Button
+                variant={showArchived ? 'default' : 'outline'}
+                size="sm"
+                className="ml-auto"
+                onClick={() => setShowArchived(!showArchived)}
+              >
+                <Archive className="h-4 w-4 mr-2" />
+                Archived{archivedCount > 0 && ` (${archivedCount})`}
+              </Button>
+            </div>
+          )}
         </div>
 
-        {isLoading ? (
+        {searchResults !== null ? (
+          searchResults.length === 0 ? (
+            <div className="py-12 text-center">
+              <p className="text-muted-foreground">No results for "{searchQuery.trim()}"</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {searchResults.map((result, index) => {
+                const Icon = getIcon(result.conversation_type);
+                return (
+                  <Card
+                    key={`${result.conversation_id}-${result.message_id ?? result.source}-${index}`}
+                    className="hover:bg-muted/50 transition-colors cursor-pointer"
+                    onClick={() => handleOpenResult(result)}
+                  >
+                    <CardContent className="p-4 flex items-start gap-4">
+                      <div className="p-2 rounded-lg bg-primary/10">
+                        <Icon className="h-5 w-5 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{result.conversation_title}</p>
+                        <p className="text-sm text-muted-foreground line-clamp-3 mt-0.5">
+                          {highlightSegments(result.snippet).map((segment, i) =>
+                            segment.match ? (
+                              <mark key={i} className="bg-primary/20 text-foreground rounded px-0.5">{segment.text}</mark>
+                            ) : (
+                              <span key={i}>{segment.text}</span>
+                            )
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {getTypeLabel(result.conversation_type)} • {SOURCE_LABELS[result.source] ?? result.source} • {format(new Date(result.created_at), 'MMM d, yyyy h:mm a')}
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )
+        ) : isLoading ? (
           <div className="flex items-center justify-center py-12">
             <p className="text-muted-foreground">Loading...</p>
           </div>
@@ -162,6 +549,17 @@ const History = () => {
               <Button onClick={() => navigate('/chat')}>Start a Chat</Button>
             </CardContent>
           </Card>
+        ) : filteredConversations.length === 0 ? (
+          <div className="py-12 text-center">
+            {showArchived && !hasFilters ? (
+              <p className="text-muted-foreground">Nothing archived</p>
+            ) : (
+              <>
+                <p className="text-muted-foreground mb-4">Nothing matches these filters</p>
+                <Button variant="outline" onClick={clearFilters}>Clear Filters</Button>
+              </>
+            )}
+          </div>
         ) : (
           <div className="space-y-6">
             {groupedConversations.map((group) => (
@@ -170,6 +568,7 @@ const History = () => {
                 <div className="space-y-2">
                   {group.items.map((conversation) => {
                     const Icon = getIcon(conversation.type);
+                    const folder = folderName(conversation.folder_id);
                     return (
                       <Card 
                         key={conversation.id} 
@@ -181,32 +580,179 @@ const History = () => {
                             <Icon className="h-5 w-5 text-primary" />
                           </div>
                           <div className="flex-1 min-w-0">
-                            <p className="font-medium truncate">{conversation.title}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {getTypeLabel(conversation.type)} • {format(new Date(conversation.updated_at), 'MMM d, h:mm a')}
-                            </p>
+                            {renamingId === conversation.id ? (
+                              <Input
+                                value={renameValue}
+                                onChange={(e) => setRenameValue(e.target.value)}
+                                onClick={(e) => e.stopPropagation()}
+                                onBlur={() => handleRename(conversation)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    e.currentTarget.blur();
+                                  } else if (e.key === 'Escape') {
+                                    cancelRenameRef.current = true;
+                                    e.currentTarget.blur();
+                                  }
+                                }}
+                                maxLength={100}
+                                className="h-8 mb-1"
+                                autoFocus
+                              />
+                            ) : (
+                              <p className="font-medium truncate">{conversation.title}</p>
+                            )}
+                            {conversation.summary && (
+                              <p className="text-sm text-muted-foreground line-clamp-2 mt-0.5">{conversation.summary}</p>
+                            )}
+                            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                              <span>
+                                {getTypeLabel(conversation.type)} • {format(new Date(conversation.updated_at), 'MMM d, h:mm a')}
+                                {folder && ` • ${folder}`}
+                                {conversation.imported_from && ` • From ${IMPORT_SOURCE_LABELS[conversation.imported_from as ImportSource] ?? conversation.imported_from}`}
+                              </span>
+                              {conversation.tags.map(tag => (
+                                <Badge
+                                  key={tag}
+                                  variant="outline"
+                                  className="px-1.5 py-0 text-[10px] font-normal cursor-pointer hover:bg-muted"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setTagFilter(tag);
+                                  }}
+                                >
+                                  #{tag}
+                                </Badge>
+                              ))}
+                            </div>
                           </div>
                           <div className="flex items-center gap-2">
+                            {conversation.archived_at ? (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Restore"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleRestore(conversation);
+                                }}
+                              >
+                                <ArchiveRestore className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={conversation.pinned_at ? "Unpin" : "Pin"}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleTogglePin(conversation);
+                                }}
+                              >
+                                {conversation.pinned_at
+                                  ? <PinOff className="h-4 w-4 text-primary" />
+                                  : <Pin className="h-4 w-4" />}
+                              </Button>
+                            )}
                             <Button 
                               variant="ghost" 
                               size="icon"
+                              title="Rename"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleOpen(conversation);
+                                startRename(conversation);
                               }}
                             >
-                              <ExternalLink className="h-4 w-4" />
+                              <Pencil className="h-4 w-4" />
                             </Button>
                             <Button 
                               variant="ghost" 
                               size="icon"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleDelete(conversation.id);
+                                handleOpen(conversation);
                               }}
                             >
-                              <Trash2 className="h-4 w-4 text-destructive" />
+                              <ExternalLink className="h-4 w-4" />
                             </Button>
+                            {/* Not modal, so the dialogs opened from it don't fight over focus */}
+                            <DropdownMenu modal={false}>
+                              <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                                <Button variant="ghost" size="icon" title="More">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              {/* Portal clicks still bubble to the card through React */}
+                              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                                <DropdownMenuSub>
+                                  <DropdownMenuSubTrigger>
+                                    <FolderInput className="h-4 w-4 mr-2" />
+                                    Move to folder
+                                  </DropdownMenuSubTrigger>
+                                  <DropdownMenuSubContent>
+                                    <DropdownMenuItem
+                                      disabled={!conversation.folder_id}
+                                      onClick={() => handleMove(conversation, null)}
+                                    >
+                                      No folder
+                                    </DropdownMenuItem>
+                                    {folders.map(f => (
+                                      <DropdownMenuItem
+                                        key={f.id}
+                                        disabled={conversation.folder_id === f.id}
+                                        onClick={() => handleMove(conversation, f.id)}
+                                      >
+                                        {f.name}
+                                      </DropdownMenuItem>
+                                    ))}
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onClick={() => setShowFolderDialog(true)}>
+                                      Manage folders...
+                                    </DropdownMenuItem>
+                                  </DropdownMenuSubContent>
+                                </DropdownMenuSub>
+                                <DropdownMenuItem onClick={() => setTaggingConversation(conversation)}>
+                                  <Tag className="h-4 w-4 mr-2" />
+                                  Edit tags
+                                </DropdownMenuItem>
+                                {conversation.type !== 'video' && (
+                                  <DropdownMenuItem onClick={() => setSharingConversation(conversation)}>
+                                    <Share2 className="h-4 w-4 mr-2" />
+                                    Share...
+                                  </DropdownMenuItem>
+                                )}
+                                {conversation.type === 'chat' && (
+                                  <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger>
+                                      <Download className="h-4 w-4 mr-2" />
+                                      Export
+                                    </DropdownMenuSubTrigger>
+                                    <DropdownMenuSubContent>
+                                      {EXPORT_OPTIONS.map(option => (
+                                        <DropdownMenuItem
+                                          key={option.format}
+                                          onClick={() => handleExport(conversation, option.format)}
+                                        >
+                                          {option.label}
+                                        </DropdownMenuItem>
+                                      ))}
+                                    </DropdownMenuSubContent>
+                                  </DropdownMenuSub>
+                                )}
+                                {!conversation.archived_at && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem
+                                      className="text-destructive focus:text-destructive"
+                                      onClick={() => handleArchive(conversation)}
+                                    >
+                                      <Archive className="h-4 w-4 mr-2" />
+                                      Archive
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
                           </div>
                         </CardContent>
                       </Card>
@@ -218,6 +764,44 @@ const History = () => {
           </div>
         )}
       </div>
+
+      <ImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImported={fetchConversations}
+      />
+
+      <FolderDialog
+        open={showFolderDialog}
+        onOpenChange={setShowFolderDialog}
+        folders={folders}
+        onFoldersChange={handleFoldersChange}
+      />
+
+      {taggingConversation && (
+        <TagEditorDialog
+          key={taggingConversation.id}
+          open
+          onOpenChange={(open) => {
+            if (!open) setTaggingConversation(null);
+          }}
+          title={taggingConversation.title}
+          tags={taggingConversation.tags}
+          knownTags={knownTags}
+          onSave={(tags) => handleSaveTags(taggingConversation, tags)}
+        />
+      )}
+
+      {sharingConversation && (
+        <ShareDialog
+          open
+          onOpenChange={(open) => {
+            if (!open) setSharingConversation(null);
+          }}
+          conversationId={sharingConversation.id}
+          title={sharingConversation.title}
+        />
+      )}
     </AppLayout>
   );
 };
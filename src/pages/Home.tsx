@@ -38,6 +38,7 @@ const Home = () => {
       const { data, error } = await supabase
         .from('conversations')
         .select('*')
+        .is('archived_at', null)
         .order('updated_at', { ascending: false })
         .limit(5);
 
@@ -47,7 +48,8 @@ const Home = () => {
       // Calculate stats
       const { data: allData } = await supabase
         .from('conversations')
-        .select('type');
+        .select('type')
+        .is('archived_at', null);
 
       if (allData) {
         const counts = { chat: 0, ppt: 0, video: 0, image: 0 };
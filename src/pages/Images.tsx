@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import AppLayout from "@/components/layout/AppLayout";
+import ShareButton from "@/components/share/ShareButton";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -26,9 +27,12 @@ interface GeneratedImage {
   createdAt: Date;
 }
 
+const IMAGE_BUCKET = 'generated-images';
+
 const ImagesPage = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
+  const { id: conversationId } = useParams<{ id: string }>();
   const { toast } = useToast();
   
   const [prompt, setPrompt] = useState("");
@@ -38,6 +42,9 @@ const ImagesPage = () => {
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [selectedImage, setSelectedImage] = useState<GeneratedImage | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'single'>('grid');
+  const [isLoadingImages, setIsLoadingImages] = useState(false);
+  const createdConversationRef = useRef<string | null>(null);
+  const userId = user?.id;
 
   useEffect(() => {
     if (!loading && !user) {
@@ -45,6 +52,120 @@ const ImagesPage = () => {
     }
   }, [user, loading, navigate]);
 
+  useEffect(() => {
+    // Images generated in this session are already in state, but only for the navigation saveImage makes
+    const justCreated = !!conversationId && conversationId === createdConversationRef.current;
+    createdConversationRef.current = null;
+
+    if (!conversationId) {
+      setGeneratedImages([]);
+      setSelectedImage(null);
+      return;
+    }
+    if (!userId || justCreated) return;
+
+    let cancelled = false;
+    const loadImages = async () => {
+      setIsLoadingImages(true);
+      try {
+        const { data, error } = await supabase
+          .from('generated_images')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        if (!data || data.length === 0) {
+          toast({
+            title: "Not Found",
+            description: "No images were found for this link",
+            variant: "destructive",
+          });
+          navigate('/images', { replace: true });
+          return;
+        }
+
+        const { data: signed, error: signError } = await supabase.storage
+          .from(IMAGE_BUCKET)
+          .createSignedUrls(data.map(row => row.storage_path), 60 * 60);
+
+        if (signError) throw signError;
+        if (cancelled) return;
+
+        const images = data.map((row, index) => ({
+          id: row.id,
+          prompt: row.prompt,
+          imageUrl: signed?.[index]?.signedUrl ?? '',
+          createdAt: new Date(row.created_at),
+        }));
+
+        setGeneratedImages(images);
+        setSelectedImage(images[0]);
+      } catch (error) {
+        console.error('Error loading images:', error);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: "Failed to load images",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setIsLoadingImages(false);
+      }
+    };
+
+    loadImages();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, userId, navigate, toast]);
+
+  const saveImage = async (image: GeneratedImage) => {
+    let activeConversationId = conversationId ?? createdConversationRef.current;
+
+    if (!activeConversationId) {
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert([{
+          user_id: user?.id,
+          title: image.prompt.substring(0, 100),
+          type: 'image',
+        }])
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      activeConversationId = data.id;
+      createdConversationRef.current = data.id;
+    }
+
+    const blob = await (await fetch(image.imageUrl)).blob();
+    const storagePath = `${user?.id}/${activeConversationId}/${image.id}.png`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(storagePath, blob, { contentType: blob.type || 'image/png' });
+
+    if (uploadError) throw uploadError;
+
+    const { error: insertError } = await supabase.from('generated_images').insert([{
+      id: image.id,
+      conversation_id: activeConversationId,
+      user_id: user?.id,
+      prompt: image.prompt,
+      storage_path: storagePath,
+    }]);
+
+    if (insertError) throw insertError;
+
+    if (activeConversationId !== conversationId) {
+      navigate(`/images/${activeConversationId}`, { replace: true });
+    }
+  };
+
   const simulateProgress = async (duration: number) => {
     const steps = [
       { progress: 15, text: "Analyzing prompt..." },
@@ -108,6 +229,17 @@ const ImagesPage = () => {
       setGeneratedImages(prev => [newImage, ...prev]);
       setSelectedImage(newImage);
       setPrompt("");
+
+      try {
+        await saveImage(newImage);
+      } catch (saveError) {
+        console.error('Error saving image:', saveError);
+        toast({
+          title: "Not Saved",
+          description: "The image was generated but could not be saved to your history",
+          variant: "destructive",
+        });
+      }
       
       toast({
         title: "Image Generated!",
@@ -180,7 +312,7 @@ const ImagesPage = () => {
   ];
 
   return (
-    <AppLayout>
+    <AppLayout headerActions={conversationId && <ShareButton conversationId={conversationId} />}>
       <div className="flex flex-col h-full bg-gradient-to-b from-background to-muted/20">
         {/* Header */}
         <div className="border-b border-border bg-card/50 backdrop-blur-sm p-4 md:p-6">
@@ -290,7 +422,11 @@ const ImagesPage = () => {
             </div>
 
             {/* Generated Images */}
-            {generatedImages.length > 0 ? (
+            {isLoadingImages ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : generatedImages.length > 0 ? (
               <div className="space-y-4">
                 {/* Selected Image */}
                 {selectedImage && viewMode === 'single' && (
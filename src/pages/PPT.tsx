@@ -1,8 +1,9 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import AppLayout from "@/components/layout/AppLayout";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -13,52 +14,115 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileText, Wand2, Download, Copy, ChevronLeft, ChevronRight, Loader2, Sparkles, Settings2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileText, Wand2, Download, Copy, ChevronLeft, ChevronRight, Loader2, Sparkles, Settings2, Plus, History, GripVertical, Trash2, Save, Square, Upload, X } from "lucide-react";
+import { format } from "date-fns";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import PPTSlidePreview from "@/components/ppt/PPTSlidePreview";
 import PPTSettingsPanel from "@/components/ppt/PPTSettingsPanel";
+import ShareButton from "@/components/share/ShareButton";
+import {
+  defaultPPTSettings,
+  MAX_ADDITIONAL_CONTEXT_LENGTH,
+  MAX_TOPIC_LENGTH,
+  SLIDE_COUNT_MAX,
+  validateAdditionalContext,
+  validatePPTSettings,
+  validateTopic,
+  type PPTSettings,
+  type Slide,
+} from "@/lib/pptSettings";
 
-export interface Slide {
-  slideNumber: number;
-  title: string;
-  bullets: string[];
-  speakerNotes: string;
-  visualSuggestion?: string;
-}
+export type { PPTSettings, Slide };
 
-export interface PPTSettings {
-  presentationType: "academic" | "business" | "technical" | "marketing" | "training";
-  audienceLevel: "school" | "college" | "professionals" | "executives";
-  intent: "inform" | "persuade" | "explain" | "pitch";
-  tone: "simple" | "professional" | "academic" | "executive";
-  slideCount: number;
-  theme: "corporate" | "minimal" | "startup" | "dark" | "creative";
-  contentDepth: "basic" | "medium" | "detailed";
-  includeSpeakerNotes: boolean;
+interface SourceDocument {
+  name: string;
+  type: string;
+  size: number;
+  content: string;
 }
 
-const defaultSettings: PPTSettings = {
-  presentationType: "business",
-  audienceLevel: "professionals",
-  intent: "inform",
-  tone: "professional",
-  slideCount: 12,
-  theme: "corporate",
-  contentDepth: "medium",
-  includeSpeakerNotes: true,
+const SOURCE_DOCUMENT_ACCEPT = ".pdf,.docx,.md,.markdown,.txt";
+const MAX_SOURCE_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+type PresentationVersion = Tables<"presentations">;
+
+// slideNumber always mirrors the slide's position in the deck
+const renumberSlides = (items: Slide[]) => items.map((slide, index) => ({ ...slide, slideNumber: index + 1 }));
+
+// Reads the SSE stream from generate-ppt, reporting each slide as soon as it arrives
+const readSlideStream = async (body: ReadableStream<Uint8Array>, onSlide: (slide: Slide) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const received: Slide[] = [];
+  let textBuffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    textBuffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
+      let line = textBuffer.slice(0, newlineIndex);
+      textBuffer = textBuffer.slice(newlineIndex + 1);
+
+      if (line.endsWith("\r")) line = line.slice(0, -1);
+      if (!line.startsWith("data: ")) continue;
+
+      const jsonStr = line.slice(6).trim();
+      if (jsonStr === "[DONE]") return received;
+
+      const event = JSON.parse(jsonStr) as { slide?: Slide; error?: string; warning?: string };
+      if (event.error) throw new Error(event.error);
+      if (event.warning) toast.warning(event.warning);
+      if (event.slide) {
+        received.push(event.slide);
+        onSlide(event.slide);
+      }
+    }
+  }
+
+  return received;
 };
 
 const PPTPage = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
+  const { id: conversationId } = useParams<{ id: string }>();
   const [topic, setTopic] = useState("");
   const [additionalContext, setAdditionalContext] = useState("");
-  const [settings, setSettings] = useState<PPTSettings>(defaultSettings);
+  const [sourceDocument, setSourceDocument] = useState<SourceDocument | null>(null);
+  const [isDraggingDocument, setIsDraggingDocument] = useState(false);
+  const [settings, setSettings] = useState<PPTSettings>(defaultPPTSettings);
   const [slides, setSlides] = useState<Slide[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [currentSlide, setCurrentSlide] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
+  const [isLoadingDeck, setIsLoadingDeck] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [versions, setVersions] = useState<PresentationVersion[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Version picked while inline edits were unsaved, waiting for the user to confirm discarding them
+  const [pendingVersion, setPendingVersion] = useState<PresentationVersion | null>(null);
+  const [isSavingEdits, setIsSavingEdits] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const createdConversationRef = useRef<string | null>(null);
+  const userId = user?.id;
 
   useEffect(() => {
     if (!loading && !user) {
@@ -66,44 +130,355 @@ const PPTPage = () => {
     }
   }, [user, loading, navigate]);
 
+  useEffect(() => {
+    // A deck we just generated is already in state, but only for the navigation savePresentation makes
+    const justCreated = !!conversationId && conversationId === createdConversationRef.current;
+    createdConversationRef.current = null;
+
+    if (!conversationId) {
+      setTopic("");
+      setAdditionalContext("");
+      setSourceDocument(null);
+      setSlides([]);
+      setCurrentSlide(0);
+      setVersions([]);
+      setActiveVersion(null);
+      setHasUnsavedChanges(false);
+      return;
+    }
+    if (!userId || justCreated) return;
+
+    let cancelled = false;
+    const loadPresentation = async () => {
+      setIsLoadingDeck(true);
+      try {
+        const { data, error } = await supabase
+          .from('presentations')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('version', { ascending: false });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        if (!data || data.length === 0) {
+          toast.error("Presentation not found");
+          navigate('/ppt', { replace: true });
+          return;
+        }
+
+        setVersions(data);
+        applyVersion(data[0]);
+      } catch (error) {
+        console.error('Error loading presentation:', error);
+        if (!cancelled) toast.error("Failed to load presentation");
+      } finally {
+        if (!cancelled) setIsLoadingDeck(false);
+      }
+    };
+
+    loadPresentation();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, userId, navigate]);
+
+  const applyVersion = (presentation: PresentationVersion) => {
+    setTopic(presentation.topic);
+    setAdditionalContext(presentation.additional_context ?? "");
+    // Decks saved before the settings schema existed may hold values it no longer accepts
+    const storedSettings = validatePPTSettings({ ...defaultPPTSettings, ...(presentation.settings as Partial<PPTSettings>) });
+    setSettings(storedSettings.ok ? storedSettings.value : defaultPPTSettings);
+    setSlides(presentation.slides as unknown as Slide[]);
+    setActiveVersion(presentation.version);
+    setCurrentSlide(0);
+    setHasUnsavedChanges(false);
+  };
+
+  // Regenerating appends a new version to the same conversation instead of overwriting the deck
+  const savePresentation = async (generatedSlides: Slide[]) => {
+    let activeConversationId = conversationId ?? null;
+
+    if (!activeConversationId) {
+      const { data: conversation, error: conversationError } = await supabase
+        .from('conversations')
+        .insert([{
+          user_id: user?.id,
+          title: topic.trim().substring(0, 100),
+          type: 'ppt',
+        }])
+        .select('id')
+        .single();
+
+      if (conversationError) throw conversationError;
+      activeConversationId = conversation.id;
+    } else {
+      const { error: conversationError } = await supabase
+        .from('conversations')
+        .update({ title: topic.trim().substring(0, 100) })
+        .eq('id', activeConversationId);
+
+      if (conversationError) throw conversationError;
+    }
+
+    const nextVersion = Math.max(0, ...versions.map(v => v.version)) + 1;
+
+    const { data: presentation, error: presentationError } = await supabase
+      .from('presentations')
+      .insert([{
+        conversation_id: activeConversationId,
+        user_id: user?.id,
+        topic: topic.trim(),
+        additional_context: additionalContext.trim() || null,
+        slides: generatedSlides as unknown as Json,
+        settings: settings as unknown as Json,
+        version: nextVersion,
+      }])
+      .select('*')
+      .single();
+
+    if (presentationError) throw presentationError;
+
+    setVersions(prev => [presentation, ...prev]);
+    setActiveVersion(presentation.version);
+
+    if (activeConversationId !== conversationId) {
+      createdConversationRef.current = activeConversationId;
+      navigate(`/ppt/${activeConversationId}`, { replace: true });
+    }
+  };
+
+  const handleVersionChange = (value: string) => {
+    const presentation = versions.find(v => v.version === Number(value));
+    if (!presentation) return;
+    if (hasUnsavedChanges) {
+      setPendingVersion(presentation);
+    } else {
+      applyVersion(presentation);
+    }
+  };
+
+  const handleDocumentSelect = (file: File) => {
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!SOURCE_DOCUMENT_ACCEPT.split(',').includes(extension)) {
+      toast.error("Upload a PDF, DOCX or Markdown file");
+      return;
+    }
+    if (file.size > MAX_SOURCE_DOCUMENT_BYTES) {
+      toast.error("Document size cannot exceed 20MB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setSourceDocument({
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        content: e.target?.result as string,
+      });
+      if (!topic.trim()) {
+        setTopic(file.name.replace(/\.[^.]+$/, ''));
+      }
+    };
+    reader.onerror = () => toast.error("Failed to read document");
+    reader.readAsDataURL(file);
+  };
+
   const generatePPT = async () => {
     if (!topic.trim()) {
       toast.error("Please enter a topic for your presentation");
       return;
     }
 
+    // Same checks generate-ppt runs, so bad input is reported before a request is made
+    for (const check of [validateTopic(topic), validateAdditionalContext(additionalContext), validatePPTSettings(settings)]) {
+      if (check.ok === false) {
+        toast.error(check.error);
+        return;
+      }
+    }
+
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      toast.error("Please log in to continue");
+      return;
+    }
+
+    const previousSlides = slides;
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     setIsGenerating(true);
     setSlides([]);
     setCurrentSlide(0);
+    setHasUnsavedChanges(false);
 
+    try {
+      const resp = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-ppt`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          topic: topic.trim(),
+          additionalContext: additionalContext.trim(),
+          settings,
+          stream: true,
+          document: sourceDocument
+            ? { fileName: sourceDocument.name, fileType: sourceDocument.type, content: sourceDocument.content }
+            : undefined,
+        }),
+        signal: abortController.signal,
+      });
+
+      if (!resp.ok || !resp.body) {
+        if (resp.status === 429) {
+          toast.error("Rate limit exceeded. Please try again in a moment.");
+        } else if (resp.status === 402) {
+          toast.error("API credits exhausted. Please add funds.");
+        } else if (resp.status === 400) {
+          const { error: message } = await resp.json().catch(() => ({ error: undefined }));
+          if (message) toast.error(message);
+        }
+        throw new Error("Failed to start slide stream");
+      }
+
+      const generatedSlides = await readSlideStream(resp.body, (slide) => {
+        setSlides(prev => [...prev, slide]);
+      });
+
+      if (generatedSlides.length === 0) throw new Error("No slides generated");
+
+      try {
+        await savePresentation(generatedSlides);
+      } catch (saveError) {
+        console.error('Error saving presentation:', saveError);
+        toast.error("Presentation generated but could not be saved to history");
+      }
+
+      toast.success("Presentation generated successfully!");
+    } catch (error) {
+      setSlides(previousSlides);
+      if (abortController.signal.aborted) {
+        toast("Generation cancelled");
+      } else {
+        console.error('Error generating PPT:', error);
+        toast.error("Failed to generate presentation. Please try again.");
+      }
+    } finally {
+      generationAbortRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const updateSlides = (next: Slide[]) => {
+    setSlides(renumberSlides(next));
+    setHasUnsavedChanges(true);
+  };
+
+  const updateSlide = (index: number, slide: Slide) => {
+    updateSlides(slides.map((s, i) => (i === index ? slide : s)));
+  };
+
+  // Regenerating sends the whole deck, which the function caps at the largest deck it generates
+  const insertSlide = (afterIndex: number) => {
+    if (slides.length >= SLIDE_COUNT_MAX) {
+      toast.error(`A presentation can have at most ${SLIDE_COUNT_MAX} slides`);
+      return;
+    }
+    const newSlide: Slide = { slideNumber: 0, title: "New Slide", bullets: [], speakerNotes: "" };
+    updateSlides([...slides.slice(0, afterIndex + 1), newSlide, ...slides.slice(afterIndex + 1)]);
+    setCurrentSlide(afterIndex + 1);
+  };
+
+  const deleteSlide = (index: number) => {
+    if (slides.length <= 1) {
+      toast.error("A presentation needs at least one slide");
+      return;
+    }
+    updateSlides(slides.filter((_, i) => i !== index));
+    setCurrentSlide(Math.min(currentSlide, slides.length - 2));
+  };
+
+  const moveSlide = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...slides];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    updateSlides(next);
+
+    // Keep the same slide selected after the move
+    if (currentSlide === from) {
+      setCurrentSlide(to);
+    } else if (from < currentSlide && to >= currentSlide) {
+      setCurrentSlide(currentSlide - 1);
+    } else if (from > currentSlide && to <= currentSlide) {
+      setCurrentSlide(currentSlide + 1);
+    }
+  };
+
+  const regenerateSlides = async (instruction: string, fromSlide: number, toSlide: number) => {
+    const startIndex = fromSlide - 1;
+    const endIndex = toSlide - 1;
+
+    setIsRegenerating(true);
     try {
       const { data, error } = await supabase.functions.invoke('generate-ppt', {
         body: {
+          mode: 'regenerate',
           topic: topic.trim(),
-          additionalContext: additionalContext.trim(),
           settings,
+          slides,
+          startIndex,
+          endIndex,
+          instruction,
         },
       });
 
       if (error) throw error;
-      
-      if (data?.slides) {
-        setSlides(data.slides);
-        
-        // Save to conversations
-        await supabase.from('conversations').insert([{
-          user_id: user?.id,
-          title: topic.trim().substring(0, 100),
-          type: 'ppt',
-        }]);
-        
-        toast.success("Presentation generated successfully!");
-      }
+      if (!data?.slides) throw new Error('No slides returned');
+
+      updateSlides([...slides.slice(0, startIndex), ...data.slides, ...slides.slice(endIndex + 1)]);
+      toast.success(startIndex === endIndex ? "Slide regenerated" : `Slides ${fromSlide}-${toSlide} regenerated`);
+      return true;
     } catch (error) {
-      console.error('Error generating PPT:', error);
-      toast.error("Failed to generate presentation. Please try again.");
+      console.error('Error regenerating slides:', error);
+      toast.error("Failed to regenerate. Please try again.");
+      return false;
     } finally {
-      setIsGenerating(false);
+      setIsRegenerating(false);
+    }
+  };
+
+  // Edits are written back to the version being viewed; only regeneration creates a new version
+  const saveSlideEdits = async () => {
+    if (!conversationId || activeVersion === null) return;
+
+    setIsSavingEdits(true);
+    try {
+      const { error } = await supabase
+        .from('presentations')
+        .update({ slides: slides as unknown as Json })
+        .eq('conversation_id', conversationId)
+        .eq('version', activeVersion);
+
+      if (error) throw error;
+
+      setVersions(prev => prev.map(v =>
+        v.version === activeVersion ? { ...v, slides: slides as unknown as Json } : v
+      ));
+      setHasUnsavedChanges(false);
+      toast.success("Changes saved");
+    } catch (error) {
+      console.error('Error saving slide edits:', error);
+      toast.error("Failed to save changes. Please try again.");
+    } finally {
+      setIsSavingEdits(false);
     }
   };
 
@@ -122,6 +497,7 @@ const PPTPage = () => {
   };
 
   const downloadAsPPTX = async () => {
+    setIsDownloading(true);
     try {
       const { data, error } = await supabase.functions.invoke('generate-pptx', {
         body: { slides, settings },
@@ -147,7 +523,9 @@ const PPTPage = () => {
       }
     } catch (error) {
       console.error('Error downloading PPTX:', error);
-      toast.error("Download feature coming soon! Use copy for now.");
+      toast.error("Failed to export PowerPoint file. Please try again.");
+    } finally {
+      setIsDownloading(false);
     }
   };
 
@@ -174,7 +552,7 @@ const PPTPage = () => {
   }
 
   return (
-    <AppLayout>
+    <AppLayout headerActions={conversationId && <ShareButton conversationId={conversationId} />}>
       <div className="h-full flex flex-col">
         <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
           {/* Input Panel */}
@@ -185,7 +563,13 @@ const PPTPage = () => {
             <div className="p-4 border-b border-border">
               <div className="flex items-center gap-2 mb-4">
                 <FileText className="h-6 w-6 text-primary" />
-                <h1 className="text-xl font-bold">AI PPT Generator</h1>
+                <h1 className="text-xl font-bold flex-1">AI PPT Generator</h1>
+                {conversationId && (
+                  <Button variant="ghost" size="sm" onClick={() => navigate('/ppt')}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New
+                  </Button>
+                )}
               </div>
               
               <div className="space-y-4">
@@ -196,6 +580,7 @@ const PPTPage = () => {
                     value={topic}
                     onChange={(e) => setTopic(e.target.value)}
                     placeholder="E.g., AI in Healthcare: Transforming Patient Care"
+                    maxLength={MAX_TOPIC_LENGTH}
                     rows={3}
                     className="mt-1"
                   />
@@ -208,11 +593,64 @@ const PPTPage = () => {
                     value={additionalContext}
                     onChange={(e) => setAdditionalContext(e.target.value)}
                     placeholder="Target audience, specific points to cover, industry focus..."
+                    maxLength={MAX_ADDITIONAL_CONTEXT_LENGTH}
                     rows={2}
                     className="mt-1"
                   />
                 </div>
 
+                <div>
+                  <Label>Source Document (Optional)</Label>
+                  {sourceDocument ? (
+                    <div className="mt-1 flex items-center gap-2 p-2 rounded-lg border border-border bg-muted/50">
+                      <FileText className="h-4 w-4 text-primary shrink-0" />
+                      <span className="text-sm truncate flex-1">{sourceDocument.name}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setSourceDocument(null)}
+                        className="h-6 w-6 shrink-0"
+                        disabled={isGenerating}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <label
+                      htmlFor="source-document"
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        setIsDraggingDocument(false);
+                        const file = e.dataTransfer.files[0];
+                        if (file) handleDocumentSelect(file);
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setIsDraggingDocument(true);
+                      }}
+                      onDragLeave={() => setIsDraggingDocument(false)}
+                      className={cn(
+                        "mt-1 flex items-center justify-center gap-2 p-3 rounded-lg border-2 border-dashed cursor-pointer text-xs text-muted-foreground transition-colors",
+                        isDraggingDocument ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+                      )}
+                    >
+                      <Upload className="h-4 w-4" />
+                      Drop a PDF, DOCX or Markdown file to build the deck from it
+                      <input
+                        id="source-document"
+                        type="file"
+                        className="hidden"
+                        accept={SOURCE_DOCUMENT_ACCEPT}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleDocumentSelect(file);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+
                 <Button
                   onClick={() => setShowSettings(!showSettings)}
                   variant="outline"
@@ -226,24 +664,27 @@ const PPTPage = () => {
                   <PPTSettingsPanel settings={settings} onSettingsChange={setSettings} />
                 )}
 
-                <Button
-                  onClick={generatePPT}
-                  disabled={isGenerating || !topic.trim()}
-                  className="w-full"
-                  size="lg"
-                >
-                  {isGenerating ? (
-                    <>
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Generating...
-                    </>
-                  ) : (
-                    <>
-                      <Wand2 className="h-4 w-4 mr-2" />
-                      Generate Presentation
-                    </>
-                  )}
-                </Button>
+                {isGenerating ? (
+                  <Button
+                    onClick={cancelGeneration}
+                    variant="outline"
+                    className="w-full"
+                    size="lg"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Cancel ({slides.length}/{settings.slideCount} slides)
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={generatePPT}
+                    disabled={!topic.trim()}
+                    className="w-full"
+                    size="lg"
+                  >
+                    <Wand2 className="h-4 w-4 mr-2" />
+                    {versions.length > 0 ? "Generate New Version" : "Generate Presentation"}
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -253,32 +694,102 @@ const PPTPage = () => {
                 <div className="space-y-2">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="font-medium text-sm">Slides ({slides.length})</h3>
-                    <Button variant="ghost" size="sm" onClick={copyAllSlides}>
-                      <Copy className="h-3 w-3 mr-1" />
-                      Copy All
-                    </Button>
+                    <div className="flex items-center gap-1">
+                      {hasUnsavedChanges && activeVersion !== null && (
+                        <Button size="sm" onClick={saveSlideEdits} disabled={isSavingEdits}>
+                          {isSavingEdits ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          ) : (
+                            <Save className="h-3 w-3 mr-1" />
+                          )}
+                          Save
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={copyAllSlides}>
+                        <Copy className="h-3 w-3 mr-1" />
+                        Copy All
+                      </Button>
+                    </div>
                   </div>
+                  {versions.length > 1 && activeVersion !== null && (
+                    <Select value={String(activeVersion)} onValueChange={handleVersionChange}>
+                      <SelectTrigger className="mb-2">
+                        <History className="h-4 w-4 mr-2 text-muted-foreground" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((v) => (
+                          <SelectItem key={v.id} value={String(v.version)}>
+                            Version {v.version} • {format(new Date(v.created_at), 'MMM d, h:mm a')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   {slides.map((slide, index) => (
-                    <button
+                    <div
                       key={index}
+                      role="button"
+                      tabIndex={0}
+                      draggable={!isGenerating}
                       onClick={() => setCurrentSlide(index)}
+                      onKeyDown={(e) => e.key === "Enter" && setCurrentSlide(index)}
+                      onDragStart={() => setDraggedIndex(index)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={() => {
+                        if (draggedIndex !== null) moveSlide(draggedIndex, index);
+                        setDraggedIndex(null);
+                      }}
+                      onDragEnd={() => setDraggedIndex(null)}
                       className={cn(
-                        "w-full text-left p-3 rounded-lg border transition-colors",
+                        "group w-full text-left p-3 rounded-lg border transition-colors cursor-pointer",
                         currentSlide === index
                           ? "border-primary bg-primary/5"
-                          : "border-border hover:bg-muted/50"
+                          : "border-border hover:bg-muted/50",
+                        draggedIndex === index && "opacity-50"
                       )}
                     >
                       <div className="flex items-center gap-2">
+                        <GripVertical className="h-3 w-3 text-muted-foreground cursor-grab shrink-0" />
                         <span className="text-xs font-medium text-muted-foreground">
                           {slide.slideNumber}
                         </span>
-                        <span className="text-sm font-medium truncate">
+                        <span className="text-sm font-medium truncate flex-1">
                           {slide.title}
                         </span>
+                        {!isGenerating && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteSlide(index);
+                            }}
+                            className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                            title="Delete slide"
+                          >
+                            <Trash2 className="h-3 w-3 text-destructive" />
+                          </Button>
+                        )}
                       </div>
-                    </button>
+                    </div>
                   ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full border-dashed"
+                    onClick={() => insertSlide(currentSlide)}
+                    disabled={isGenerating}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Insert Slide
+                  </Button>
+                  {isGenerating && (
+                    <div className="flex items-center gap-2 p-3 rounded-lg border border-dashed border-border text-sm text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Generating slide {slides.length + 1}...
+                    </div>
+                  )}
                 </div>
               </ScrollArea>
             )}
@@ -286,7 +797,18 @@ const PPTPage = () => {
 
           {/* Preview Panel */}
           <div className="flex-1 flex flex-col bg-muted/30 overflow-hidden">
-            {slides.length === 0 ? (
+            {isLoadingDeck ? (
+              <div className="flex-1 flex items-center justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : slides.length === 0 && isGenerating ? (
+              <div className="flex-1 flex items-center justify-center p-8">
+                <div className="text-center space-y-3">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+                  <p className="text-muted-foreground">Writing your first slide...</p>
+                </div>
+              </div>
+            ) : slides.length === 0 ? (
               <div className="flex-1 flex items-center justify-center p-8">
                 <div className="text-center max-w-md">
                   <div className="mx-auto w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
@@ -307,6 +829,10 @@ const PPTPage = () => {
                     slide={slides[currentSlide]} 
                     theme={settings.theme}
                     onCopy={() => copySlideContent(slides[currentSlide])}
+                    onChange={isGenerating ? undefined : (slide) => updateSlide(currentSlide, slide)}
+                    totalSlides={slides.length}
+                    isRegenerating={isRegenerating}
+                    onRegenerate={isGenerating ? undefined : regenerateSlides}
                   />
                 </div>
 
@@ -332,8 +858,13 @@ const PPTPage = () => {
                       <Button
                         variant="outline"
                         onClick={downloadAsPPTX}
+                        disabled={isDownloading}
                       >
-                        <Download className="h-4 w-4 mr-1" />
+                        {isDownloading ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4 mr-1" />
+                        )}
                         Download
                       </Button>
                       <Button
@@ -352,6 +883,28 @@ const PPTPage = () => {
           </div>
         </div>
       </div>
+
+      <AlertDialog open={pendingVersion !== null} onOpenChange={(open) => !open && setPendingVersion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved edits?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your changes to version {activeVersion} haven't been saved. Switching to version {pendingVersion?.version} discards them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingVersion) applyVersion(pendingVersion);
+                setPendingVersion(null);
+              }}
+            >
+              Discard and Switch
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </AppLayout>
   );
 };
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import ReactMarkdown from "react-markdown";
+import { format } from "date-fns";
+import { BookOpen, Bot, ChevronLeft, ChevronRight, Eye, FileText, Link2Off, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import PPTSlidePreview from "@/components/ppt/PPTSlidePreview";
+import { useToast } from "@/hooks/use-toast";
+import { messageAuthor } from "@/lib/conversationExport";
+import { fetchSharedContent, type SharedContent } from "@/lib/sharing";
+import type { Slide } from "@/lib/pptSettings";
+import kashifLogo from "@/assets/kashif-ai-logo.png";
+
+const copySlideContent = (slide: Slide) =>
+  navigator.clipboard.writeText(
+    `${slide.title}\n\n${slide.bullets.map(b => `• ${b}`).join('\n')}${slide.speakerNotes ? `\n\nSpeaker Notes:\n${slide.speakerNotes}` : ''}`
+  );
+
+// Public read-only view behind a share link; works without signing in
+const Shared = () => {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentSlide, setCurrentSlide] = useState(0);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    const loadShared = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchSharedContent(token);
+        if (!cancelled) setContent(data);
+      } catch (error) {
+        console.error('Error loading shared conversation:', error);
+        if (!cancelled) setContent(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadShared();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  useEffect(() => {
+    if (content) document.title = `${content.title} · Kashif's AI`;
+  }, [content]);
+
+  const renderContent = (shared: SharedContent) => {
+    switch (shared.type) {
+      case "chat":
+        return (
+          <div className="space-y-6">
+            {shared.messages.map(message => {
+              const isUser = message.role === "user";
+              return (
+                <div key={message.id} className={`flex gap-3 ${isUser ? "justify-end" : "justify-start"}`}>
+                  {!isUser && (
+                    <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-xl bg-gradient-to-br from-primary to-secondary shadow-lg">
+                      <Bot className="h-5 w-5 text-primary-foreground" />
+                    </div>
+                  )}
+                  <div className="flex flex-col gap-1 max-w-[80%] md:max-w-[70%]">
+                    <div
+                      className={`rounded-2xl px-4 py-3 space-y-3 ${
+                        isUser
+                          ? "bg-gradient-to-r from-primary to-secondary text-primary-foreground shadow-lg"
+                          : "bg-card border border-border text-card-foreground shadow-sm"
+                      }`}
+                    >
+                      {message.files.length > 0 && (
+                        <div className="space-y-1 pb-3 border-b border-border/30">
+                          {message.files.map((file, index) => (
+                            <p key={index} className="flex items-center gap-2 text-sm">
+                              <FileText className="h-4 w-4 shrink-0" />
+                              <span className="truncate">{file.name}</span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      {isUser ? (
+                        <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                      ) : (
+                        <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3 prose-ul:my-2 prose-ol:my-2 prose-li:my-0.5 prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-muted prose-pre:p-3 prose-pre:rounded-lg">
+                          <ReactMarkdown>{message.content}</ReactMarkdown>
+                        </div>
+                      )}
+                      {message.citations.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5 pt-2 border-t border-border/50">
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <BookOpen className="h-3.5 w-3.5" />
+                            Sources
+                          </span>
+                          {message.citations.map(citation => (
+                            <span key={citation.index} className="text-xs px-2 py-0.5 rounded-md bg-muted text-foreground max-w-[14rem] truncate">
+                              [{citation.index}] {citation.documentName}
+                              {citation.page ? `, p. ${citation.page}` : ""}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <span className={`text-xs text-muted-foreground ${isUser ? "text-right" : ""}`}>
+                      {messageAuthor(message)} · {format(new Date(message.created_at), "MMM d, h:mm a")}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      case "ppt":
+        if (shared.slides.length === 0) {
+          return <p className="text-center text-muted-foreground py-12">This deck has no slides yet</p>;
+        }
+        return (
+          <div className="space-y-4">
+            <PPTSlidePreview
+              slide={shared.slides[currentSlide]}
+              theme={shared.theme}
+              onCopy={() => {
+                copySlideContent(shared.slides[currentSlide]);
+                toast({ title: "Copied", description: "Slide content copied to clipboard" });
+              }}
+              totalSlides={shared.slides.length}
+            />
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                onClick={() => setCurrentSlide(Math.max(0, currentSlide - 1))}
+                disabled={currentSlide === 0}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Slide {currentSlide + 1} of {shared.slides.length}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => setCurrentSlide(Math.min(shared.slides.length - 1, currentSlide + 1))}
+                disabled={currentSlide === shared.slides.length - 1}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        );
+
+      case "image":
+        if (shared.images.length === 0) {
+          return <p className="text-center text-muted-foreground py-12">No images were shared</p>;
+        }
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {shared.images.map(image => (
+              <Card key={image.id} className="overflow-hidden">
+                <img src={image.imageUrl} alt={image.prompt} className="w-full aspect-square object-cover" />
+                <CardContent className="p-3">
+                  <p className="text-sm line-clamp-3">{image.prompt}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between gap-3">
+          <Link to="/" className="flex items-center gap-2">
+            <img src={kashifLogo} alt="Kashif's AI Logo" className="h-8 w-8 object-contain" />
+            <span className="text-lg font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+              Kashif's AI
+            </span>
+          </Link>
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Eye className="h-4 w-4" />
+            Read-only
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !content ? (
+          <div className="text-center py-24 space-y-3">
+            <Link2Off className="h-12 w-12 mx-auto text-muted-foreground" />
+            <h1 className="text-xl font-semibold">This link isn't available</h1>
+            <p className="text-muted-foreground">It may have expired or been revoked by its owner.</p>
+            <Button asChild variant="outline">
+              <Link to="/">Go to Kashif's AI</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-2xl font-bold">{content.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                Shared {content.type === "ppt" ? "presentation" : content.type === "image" ? "images" : "conversation"}
+                {" · "}
+                {format(new Date(content.createdAt), "MMM d, yyyy")}
+              </p>
+            </div>
+            {renderContent(content)}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Shared;
@@ -0,0 +1,105 @@
+// OpenAI-style message content shared by the chat function and the app (see src/lib/chatContent.ts).
+
+export const MAX_MESSAGE_TEXT_LENGTH = 10000;
+export const MAX_CHAT_MESSAGES = 50;
+export const MAX_IMAGE_PARTS = 4;
+export const MAX_IMAGE_PART_BYTES = 5 * 1024 * 1024;
+export const IMAGE_PART_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] as const;
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type MessageContent = string | ContentPart[];
+
+export type ContentValidationResult =
+  | { ok: true; value: MessageContent; imageCount: number }
+  | { ok: false; error: string };
+
+// Decoded size of a base64 data URL, without decoding it
+export function dataUrlByteSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function isSupportedImageDataUrl(url: string): boolean {
+  const match = url.match(/^data:([^;,]+);base64,/);
+  return !!match && (IMAGE_PART_TYPES as readonly string[]).includes(match[1]);
+}
+
+// The text of a message, whichever form its content takes
+export function messageText(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+const SHORTENED_MARKER = '\n[Message shortened]';
+
+// Earlier turns that fit in one request next to the new message: the newest MAX_CHAT_MESSAGES - 1,
+// each cut to MAX_MESSAGE_TEXT_LENGTH so long or imported conversations keep working
+export function windowHistory<T extends { content: string }>(history: T[]): T[] {
+  return history.slice(-(MAX_CHAT_MESSAGES - 1)).map((message) =>
+    message.content.length > MAX_MESSAGE_TEXT_LENGTH
+      ? { ...message, content: message.content.slice(0, MAX_MESSAGE_TEXT_LENGTH - SHORTENED_MARKER.length) + SHORTENED_MARKER }
+      : message
+  );
+}
+
+// Only user messages may carry images. Parts are rebuilt so unknown fields never reach the model.
+export function validateMessageContent(content: unknown, role: string): ContentValidationResult {
+  if (typeof content === 'string') {
+    if (!content) {
+      return { ok: false, error: 'Message content must be a non-empty string' };
+    }
+    if (content.length > MAX_MESSAGE_TEXT_LENGTH) {
+      return { ok: false, error: 'Message content cannot exceed 10,000 characters' };
+    }
+    return { ok: true, value: content, imageCount: 0 };
+  }
+
+  if (!Array.isArray(content) || content.length === 0) {
+    return { ok: false, error: 'Message content must be a non-empty string or array of content parts' };
+  }
+  if (role !== 'user') {
+    return { ok: false, error: 'Only user messages can contain content parts' };
+  }
+
+  const parts: ContentPart[] = [];
+  let textLength = 0;
+  let imageCount = 0;
+
+  for (const part of content) {
+    if (part?.type === 'text' && typeof part.text === 'string') {
+      textLength += part.text.length;
+      parts.push({ type: 'text', text: part.text });
+    } else if (part?.type === 'image_url' && typeof part.image_url?.url === 'string') {
+      const url: string = part.image_url.url;
+      if (!isSupportedImageDataUrl(url)) {
+        return { ok: false, error: `Images must be base64 data URLs of type ${IMAGE_PART_TYPES.join(', ')}` };
+      }
+      if (dataUrlByteSize(url) > MAX_IMAGE_PART_BYTES) {
+        return { ok: false, error: 'Each image cannot exceed 5MB' };
+      }
+      imageCount++;
+      parts.push({ type: 'image_url', image_url: { url } });
+    } else {
+      return { ok: false, error: 'Content parts must be { type: "text", text } or { type: "image_url", image_url: { url } }' };
+    }
+  }
+
+  if (textLength > MAX_MESSAGE_TEXT_LENGTH) {
+    return { ok: false, error: 'Message content cannot exceed 10,000 characters' };
+  }
+  if (imageCount > MAX_IMAGE_PARTS) {
+    return { ok: false, error: `A message cannot contain more than ${MAX_IMAGE_PARTS} images` };
+  }
+  if (textLength === 0 && imageCount === 0) {
+    return { ok: false, error: 'Message content cannot be empty' };
+  }
+
+  return { ok: true, value: parts, imageCount };
+}
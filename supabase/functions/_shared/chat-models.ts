@@ -0,0 +1,95 @@
+// Models and generation parameters the chat function accepts, shared with the app (see src/lib/chatModels.ts).
+
+export const CHAT_MODELS = [
+  { id: 'google/gemini-2.5-flash', label: 'Gemini 2.5 Flash', description: 'Fast and balanced', supportsTemperature: true },
+  { id: 'google/gemini-2.5-pro', label: 'Gemini 2.5 Pro', description: 'Deepest reasoning, slower', supportsTemperature: true },
+  { id: 'google/gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', description: 'Quickest for simple tasks', supportsTemperature: true },
+  { id: 'openai/gpt-5', label: 'GPT-5', description: 'Strong all-rounder, slower', supportsTemperature: false },
+  { id: 'openai/gpt-5-mini', label: 'GPT-5 Mini', description: 'Lower cost GPT-5', supportsTemperature: false },
+] as const;
+
+export type ChatModelId = (typeof CHAT_MODELS)[number]['id'];
+
+export const DEFAULT_CHAT_MODEL: ChatModelId = 'google/gemini-2.5-flash';
+
+export const TEMPERATURE_MIN = 0;
+export const TEMPERATURE_MAX = 2;
+export const DEFAULT_TEMPERATURE = 1;
+
+export const MAX_TOKENS_MIN = 256;
+export const MAX_TOKENS_MAX = 16384;
+export const DEFAULT_MAX_TOKENS = 8192;
+
+export interface GenerationOptions {
+  model: ChatModelId;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export type GenerationValidationResult =
+  | { ok: true; value: GenerationOptions }
+  | { ok: false; field: string; error: string };
+
+export function isChatModel(model: unknown): model is ChatModelId {
+  return CHAT_MODELS.some((m) => m.id === model);
+}
+
+// Messages saved before model selection, or with a retired model, still get a readable name
+export function chatModelLabel(model: string): string {
+  return CHAT_MODELS.find((m) => m.id === model)?.label ?? model;
+}
+
+// Omitted fields fall back to the default model and the provider's own defaults
+export function validateGenerationOptions(input: {
+  model?: unknown;
+  temperature?: unknown;
+  max_tokens?: unknown;
+}): GenerationValidationResult {
+  const model = input.model ?? DEFAULT_CHAT_MODEL;
+  if (!isChatModel(model)) {
+    return { ok: false, field: 'model', error: `model must be one of ${CHAT_MODELS.map((m) => m.id).join(', ')}` };
+  }
+
+  const options: GenerationOptions = { model };
+
+  if (input.temperature !== undefined && input.temperature !== null) {
+    if (
+      typeof input.temperature !== 'number' ||
+      !Number.isFinite(input.temperature) ||
+      input.temperature < TEMPERATURE_MIN ||
+      input.temperature > TEMPERATURE_MAX
+    ) {
+      return { ok: false, field: 'temperature', error: `temperature must be a number from ${TEMPERATURE_MIN} to ${TEMPERATURE_MAX}` };
+    }
+    options.temperature = input.temperature;
+  }
+
+  if (input.max_tokens !== undefined && input.max_tokens !== null) {
+    if (
+      !Number.isInteger(input.max_tokens) ||
+      (input.max_tokens as number) < MAX_TOKENS_MIN ||
+      (input.max_tokens as number) > MAX_TOKENS_MAX
+    ) {
+      return { ok: false, field: 'max_tokens', error: `max_tokens must be an integer from ${MAX_TOKENS_MIN} to ${MAX_TOKENS_MAX}` };
+    }
+    options.maxTokens = input.max_tokens as number;
+  }
+
+  return { ok: true, value: options };
+}
+
+// Gateway request fields for the options. OpenAI reasoning models take max_completion_tokens
+// and reject a custom temperature, so it is dropped for them.
+export function toGatewayParams(options: GenerationOptions): Record<string, unknown> {
+  const model = CHAT_MODELS.find((m) => m.id === options.model)!;
+  const params: Record<string, unknown> = { model: options.model };
+
+  if (options.temperature !== undefined && model.supportsTemperature) {
+    params.temperature = options.temperature;
+  }
+  if (options.maxTokens !== undefined) {
+    params[options.model.startsWith('openai/') ? 'max_completion_tokens' : 'max_tokens'] = options.maxTokens;
+  }
+
+  return params;
+}
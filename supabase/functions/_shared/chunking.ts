@@ -0,0 +1,82 @@
+export interface PageText {
+  page: number | null;
+  text: string;
+}
+
+export interface TextChunk {
+  index: number;
+  page: number | null;
+  content: string;
+}
+
+const DEFAULT_CHUNK_CHARS = 1200;
+const DEFAULT_OVERLAP_CHARS = 200;
+
+// Splits text into paragraph-aligned chunks. Chunks never cross a page boundary,
+// so each one can be cited by a single page number.
+export function chunkPages(
+  pages: PageText[],
+  maxChars = DEFAULT_CHUNK_CHARS,
+  overlapChars = DEFAULT_OVERLAP_CHARS
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const { page, text } of pages) {
+    let current = '';
+    let hasNewText = false;
+
+    const flush = () => {
+      const content = current.trim();
+      if (content && hasNewText) {
+        chunks.push({ index: chunks.length, page, content });
+      }
+      // Carry the tail of the previous chunk forward so sentences split across chunks stay searchable
+      current = content.length > overlapChars ? content.slice(-overlapChars) : '';
+      hasNewText = false;
+    };
+
+    for (const paragraph of splitParagraphs(text, maxChars)) {
+      if (hasNewText && current.length + paragraph.length + 2 > maxChars) {
+        flush();
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+      hasNewText = true;
+    }
+
+    flush();
+  }
+
+  return chunks;
+}
+
+// Paragraphs longer than maxChars are broken at sentence ends, or hard-wrapped as a last resort
+function splitParagraphs(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (trimmed.length <= maxChars) {
+      pieces.push(trimmed);
+      continue;
+    }
+
+    let current = '';
+    for (const sentence of trimmed.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [trimmed]) {
+      if (current && current.length + sentence.length > maxChars) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      if (sentence.length > maxChars) {
+        for (let start = 0; start < sentence.length; start += maxChars) {
+          pieces.push(sentence.slice(start, start + maxChars).trim());
+        }
+      } else {
+        current += sentence;
+      }
+    }
+    if (current.trim()) pieces.push(current.trim());
+  }
+
+  return pieces;
+}
@@ -0,0 +1,367 @@
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+
+export interface DocumentSection {
+  heading: string;
+  text: string;
+  page?: number;
+}
+
+export type DocumentKind = 'pdf' | 'docx' | 'xlsx' | 'pptx' | 'csv' | 'markdown' | 'text';
+
+// Spreadsheets are cut off after this many rows per sheet
+const MAX_SHEET_ROWS = 1000;
+
+export function detectDocumentKind(fileName: string, fileType: string): DocumentKind | null {
+  const name = fileName.toLowerCase();
+
+  if (fileType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (
+    fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    name.endsWith('.docx')
+  ) {
+    return 'docx';
+  }
+  if (fileType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || name.endsWith('.xlsx')) {
+    return 'xlsx';
+  }
+  if (fileType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' || name.endsWith('.pptx')) {
+    return 'pptx';
+  }
+  if (fileType === 'text/csv' || name.endsWith('.csv')) return 'csv';
+  if (fileType === 'text/markdown' || name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+  if (fileType.startsWith('text/') || name.endsWith('.txt')) return 'text';
+
+  return null;
+}
+
+// Accepts either a data URL (as produced by FileReader.readAsDataURL) or bare base64
+export function decodeDataUrl(content: string): Uint8Array {
+  const base64 = content.startsWith('data:') ? content.slice(content.indexOf(',') + 1) : content;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function extractPdfPages(bytes: Uint8Array): Promise<string[]> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return (text as string[]).map((page) => page.replace(/[ \t]+\n/g, '\n').trim());
+}
+
+export async function extractDocumentSections(
+  fileName: string,
+  fileType: string,
+  content: string
+): Promise<DocumentSection[]> {
+  const kind = detectDocumentKind(fileName, fileType);
+  const bytes = decodeDataUrl(content);
+
+  switch (kind) {
+    case 'pdf': {
+      const pages = await extractPdfPages(bytes);
+      return pages
+        .map((text, index) => ({ heading: `Page ${index + 1}`, text, page: index + 1 }))
+        .filter((section) => section.text);
+    }
+    case 'docx':
+      return splitDocxSections(await readZipEntry(await JSZip.loadAsync(bytes), 'word/document.xml'));
+    case 'xlsx':
+      return extractSheetSections(await JSZip.loadAsync(bytes));
+    case 'pptx':
+      return extractSlideSections(await JSZip.loadAsync(bytes));
+    case 'csv': {
+      const rows = parseCsv(new TextDecoder().decode(bytes));
+      return rows.length ? [{ heading: fileName, text: formatTable(rows) }] : [];
+    }
+    case 'markdown':
+      return splitMarkdownSections(new TextDecoder().decode(bytes));
+    case 'text': {
+      const text = new TextDecoder().decode(bytes).trim();
+      return text ? [{ heading: fileName, text }] : [];
+    }
+    default:
+      throw new Error(`Unsupported document type: ${fileType || fileName}`);
+  }
+}
+
+async function readZipEntry(zip: JSZip, path: string): Promise<string> {
+  const entry = zip.file(path);
+  if (!entry) {
+    throw new Error(`Missing ${path} in archive`);
+  }
+  return await entry.async('string');
+}
+
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// Concatenates the <w:t> runs of a WordprocessingML paragraph
+function docxParagraphText(paragraphXml: string): string {
+  const withBreaks = paragraphXml
+    .replace(/<w:tab\/>/g, '<w:t>\t</w:t>')
+    .replace(/<w:br\/>/g, '<w:t>\n</w:t>');
+  const runs = withBreaks.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>/g) ?? [];
+  return decodeXmlEntities(runs.map((run) => run.replace(/<[^>]+>/g, '')).join(''));
+}
+
+// Renders a <w:tbl> as rows of pipe-separated cells, first row as the header
+function docxTableText(tableXml: string): string {
+  const rows = (tableXml.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) ?? []).map((row) =>
+    (row.match(/<w:tc[ >][\s\S]*?<\/w:tc>/g) ?? []).map((cell) =>
+      (cell.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? []).map((p) => docxParagraphText(p).trim()).filter(Boolean).join(' ')
+    )
+  );
+  return formatTable(rows);
+}
+
+function splitDocxSections(documentXml: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { heading: 'Introduction', text: '' };
+
+  // Walk body-level tables and paragraphs in document order
+  for (const block of documentXml.match(/<w:tbl[ >][\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g) ?? []) {
+    if (block.startsWith('<w:tbl')) {
+      const table = docxTableText(block);
+      if (table) current.text += `\n${table}\n\n`;
+      continue;
+    }
+
+    const paragraph = block;
+    const text = docxParagraphText(paragraph).trim();
+    if (!text) continue;
+
+    const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? '';
+    if (/^(Heading\d|Title)$/i.test(style)) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: text, text: '' };
+    } else {
+      current.text += `${text}\n`;
+    }
+  }
+
+  if (current.text.trim()) sections.push(current);
+  return sections.map((section) => ({ ...section, text: section.text.trim() }));
+}
+
+// Formats rows as a pipe table; the first row is treated as the header
+function formatTable(rows: string[][]): string {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim()));
+  if (nonEmpty.length === 0) return '';
+
+  const width = Math.max(...nonEmpty.map((row) => row.length));
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim()).join(' | ')} |`;
+
+  const [header, ...body] = nonEmpty;
+  return [line(header), `|${' --- |'.repeat(width)}`, ...body.map(line)].join('\n');
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return truncateRows(rows.filter((r) => r.some((cell) => cell.trim())));
+}
+
+function truncateRows(rows: string[][]): string[][] {
+  if (rows.length <= MAX_SHEET_ROWS) return rows;
+  return [...rows.slice(0, MAX_SHEET_ROWS), [`[${rows.length - MAX_SHEET_ROWS} more rows omitted]`]];
+}
+
+// Maps relationship ids to their targets, resolved relative to the part's folder
+async function readRelationships(zip: JSZip, relsPath: string, baseDir: string): Promise<Map<string, string>> {
+  const targets = new Map<string, string>();
+  const entry = zip.file(relsPath);
+  if (!entry) return targets;
+
+  for (const rel of (await entry.async('string')).match(/<Relationship\s[^>]*>/g) ?? []) {
+    const id = rel.match(/\sId="([^"]+)"/)?.[1];
+    const target = rel.match(/\sTarget="([^"]+)"/)?.[1];
+    if (id && target) {
+      targets.set(id, resolvePartPath(baseDir, target));
+    }
+  }
+  return targets;
+}
+
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = baseDir.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+// Converts a cell reference column (A, B, ..., AA) to a zero-based index
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/)?.[0] ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+async function extractSheetSections(zip: JSZip): Promise<DocumentSection[]> {
+  const workbookXml = await readZipEntry(zip, 'xl/workbook.xml');
+  const relationships = await readRelationships(zip, 'xl/_rels/workbook.xml.rels', 'xl');
+
+  const sharedStringsEntry = zip.file('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? ((await sharedStringsEntry.async('string')).match(/<si>[\s\S]*?<\/si>/g) ?? []).map((item) =>
+        decodeXmlEntities((item.match(/<t(?:\s[^>]*)?>[^<]*<\/t>/g) ?? []).map((t) => t.replace(/<[^>]+>/g, '')).join(''))
+      )
+    : [];
+
+  const sections: DocumentSection[] = [];
+  for (const sheet of workbookXml.match(/<sheet\s[^>]*\/?>/g) ?? []) {
+    const name = decodeXmlEntities(sheet.match(/\sname="([^"]*)"/)?.[1] ?? `Sheet ${sections.length + 1}`);
+    const relId = sheet.match(/\sr:id="([^"]+)"/)?.[1];
+    const path = relId ? relationships.get(relId) : undefined;
+    const entry = path ? zip.file(path) : null;
+    if (!entry) continue;
+
+    const rows: string[][] = [];
+    for (const rowXml of (await entry.async('string')).match(/<row[ >][\s\S]*?<\/row>/g) ?? []) {
+      const row: string[] = [];
+      for (const cell of rowXml.match(/<c\s[^>]*\/>|<c\s[^>]*>[\s\S]*?<\/c>/g) ?? []) {
+        const ref = cell.match(/\sr="([A-Z]+)\d+"/)?.[1];
+        const type = cell.match(/\st="([^"]+)"/)?.[1];
+        const value = cell.match(/<v>([^<]*)<\/v>/)?.[1] ?? '';
+
+        let text: string;
+        if (type === 's') {
+          text = sharedStrings[Number(value)] ?? '';
+        } else if (type === 'inlineStr') {
+          text = decodeXmlEntities((cell.match(/<t(?:\s[^>]*)?>[^<]*<\/t>/g) ?? []).map((t) => t.replace(/<[^>]+>/g, '')).join(''));
+        } else if (type === 'b') {
+          text = value === '1' ? 'TRUE' : 'FALSE';
+        } else {
+          text = decodeXmlEntities(value);
+        }
+
+        row[ref ? columnIndex(ref) : row.length] = text;
+      }
+      rows.push(Array.from(row, (cell) => cell ?? ''));
+    }
+
+    const table = formatTable(truncateRows(rows));
+    if (table) sections.push({ heading: name, text: table });
+  }
+
+  return sections;
+}
+
+function drawingParagraphs(xml: string): string[] {
+  return (xml.match(/<a:p>[\s\S]*?<\/a:p>|<a:p\s[\s\S]*?<\/a:p>/g) ?? [])
+    .map((p) => decodeXmlEntities((p.match(/<a:t>[^<]*<\/a:t>/g) ?? []).map((t) => t.replace(/<[^>]+>/g, '')).join('')).trim())
+    .filter(Boolean);
+}
+
+// One section per slide, in presentation order, with speaker notes appended
+async function extractSlideSections(zip: JSZip): Promise<DocumentSection[]> {
+  const presentationXml = await readZipEntry(zip, 'ppt/presentation.xml');
+  const relationships = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+
+  const sections: DocumentSection[] = [];
+  const slideIds = presentationXml.match(/<p:sldId\s[^>]*\/?>/g) ?? [];
+
+  for (const [index, slideId] of slideIds.entries()) {
+    const relId = slideId.match(/\sr:id="([^"]+)"/)?.[1];
+    const path = relId ? relationships.get(relId) : undefined;
+    const entry = path ? zip.file(path) : null;
+    if (!path || !entry) continue;
+
+    const slideNumber = index + 1;
+    const paragraphs = drawingParagraphs(await entry.async('string'));
+
+    const slideDir = path.slice(0, path.lastIndexOf('/'));
+    const slideFile = path.slice(path.lastIndexOf('/') + 1);
+    const slideRels = await readRelationships(zip, `${slideDir}/_rels/${slideFile}.rels`, slideDir);
+    const notesPath = [...slideRels.values()].find((target) => target.includes('notesSlides/'));
+    const notesEntry = notesPath ? zip.file(notesPath) : null;
+    // Notes slides repeat the slide number placeholder; drop bare numbers
+    const notes = notesEntry
+      ? drawingParagraphs(await notesEntry.async('string')).filter((line) => !/^\d+$/.test(line))
+      : [];
+
+    if (paragraphs.length === 0 && notes.length === 0) continue;
+
+    const [title, ...body] = paragraphs;
+    let text = body.join('\n');
+    if (notes.length) text += `${text ? '\n\n' : ''}Speaker notes:\n${notes.join('\n')}`;
+
+    sections.push({
+      heading: title ? `Slide ${slideNumber}: ${title}` : `Slide ${slideNumber}`,
+      text: text || title || '',
+      page: slideNumber,
+    });
+  }
+
+  return sections;
+}
+
+function splitMarkdownSections(markdown: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { heading: 'Introduction', text: '' };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: heading[1].trim(), text: '' };
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+
+  if (current.text.trim()) sections.push(current);
+  return sections.map((section) => ({ ...section, text: section.text.trim() }));
+}
@@ -0,0 +1,22 @@
+// Embeddings run on the edge runtime's built-in gte-small model (384 dimensions, matching
+// document_chunks.embedding), so no external API key is needed.
+
+declare const Supabase: {
+  ai: {
+    Session: new (model: string) => {
+      run(input: string, options: { mean_pool: boolean; normalize: boolean }): Promise<unknown>;
+    };
+  };
+};
+
+const session = new Supabase.ai.Session('gte-small');
+
+export async function embedText(text: string): Promise<number[]> {
+  const embedding = await session.run(text, { mean_pool: true, normalize: true });
+  return Array.from(embedding as ArrayLike<number>);
+}
+
+// pgvector accepts embeddings as a bracketed list literal
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
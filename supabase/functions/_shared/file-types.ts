@@ -0,0 +1,32 @@
+// File type checks shared by analyze-file and the app (see src/lib/fileTypes.ts)
+
+// Office and PDF formats analyze-file has a structured extractor for
+const DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.pptx', '.csv'];
+
+// Plain text, data and source files that are read as-is. MIME types for code
+// are unreliable (.ts is often reported as video/mp2t), so match on extension.
+const TEXT_EXTENSIONS = [
+  '.txt', '.md', '.markdown', '.json', '.jsonl', '.yaml', '.yml', '.toml', '.xml', '.html', '.css', '.scss',
+  '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.py', '.rb', '.php', '.java', '.kt', '.swift', '.go', '.rs',
+  '.c', '.h', '.cpp', '.hpp', '.cs', '.sql', '.sh', '.r', '.lua', '.ini', '.env', '.log',
+];
+
+const hasExtension = (fileName: string, extensions: string[]) => {
+  const name = fileName.toLowerCase();
+  return extensions.some((ext) => name.endsWith(ext));
+};
+
+export const TEXT_FILE_ACCEPT = TEXT_EXTENSIONS.join(',');
+
+export function isExtractableDocument(fileName: string, fileType: string): boolean {
+  return fileType === 'application/pdf' || hasExtension(fileName, DOCUMENT_EXTENSIONS);
+}
+
+export function isImageFile(fileType: string): boolean {
+  return fileType.startsWith('image/');
+}
+
+export function isTextFile(fileName: string, fileType: string): boolean {
+  if (isExtractableDocument(fileName, fileType)) return false;
+  return fileType.startsWith('text/') || fileType.includes('json') || hasExtension(fileName, TEXT_EXTENSIONS);
+}
@@ -0,0 +1,53 @@
+// Persona fields and prompt assembly shared by the chat function and the app (see src/lib/personas.ts).
+
+export const RESPONSE_STYLES = [
+  {
+    id: 'structured',
+    label: 'Structured',
+    instruction: 'Organize answers with headers, bullet points and examples where they help.',
+  },
+  {
+    id: 'concise',
+    label: 'Concise',
+    instruction: 'Answer briefly and directly in a few sentences. Only use lists or headers when the user asks for them.',
+  },
+  {
+    id: 'conversational',
+    label: 'Conversational',
+    instruction: 'Reply in a natural, conversational tone using plain paragraphs rather than headers and bullet lists.',
+  },
+  {
+    id: 'code',
+    label: 'Code only',
+    instruction: 'Reply with code in fenced code blocks. Keep prose to a one-line note unless the user asks for an explanation.',
+  },
+] as const;
+
+export type ResponseStyle = (typeof RESPONSE_STYLES)[number]['id'];
+
+export const MAX_PERSONA_NAME_LENGTH = 60;
+export const MAX_PERSONA_PROMPT_LENGTH = 4000;
+
+export interface PersonaPrompt {
+  name: string;
+  system_prompt: string;
+  response_style: string;
+  replace_base_prompt: boolean;
+}
+
+export function isResponseStyle(style: unknown): style is ResponseStyle {
+  return RESPONSE_STYLES.some((s) => s.id === style);
+}
+
+// A persona either replaces the base prompt outright or is layered on top of it.
+// The response style comes last so it wins over the base prompt's formatting rules.
+export function buildPersonaSystemPrompt(basePrompt: string, persona: PersonaPrompt): string {
+  const style = RESPONSE_STYLES.find((s) => s.id === persona.response_style) ?? RESPONSE_STYLES[0];
+  const styleSection = `## Response Style:\n${style.instruction} This takes precedence over any formatting guidance above.`;
+
+  if (persona.replace_base_prompt) {
+    return `${persona.system_prompt}\n\n${styleSection}`;
+  }
+
+  return `${basePrompt}\n\n## Persona: ${persona.name}\n${persona.system_prompt}\n\n${styleSection}`;
+}
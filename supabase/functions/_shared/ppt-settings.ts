@@ -0,0 +1,142 @@
+// Shared by the PPT page and the generate-ppt edge function.
+
+export const PRESENTATION_TYPES = ['academic', 'business', 'technical', 'marketing', 'training'] as const;
+export const AUDIENCE_LEVELS = ['school', 'college', 'professionals', 'executives'] as const;
+export const INTENTS = ['inform', 'persuade', 'explain', 'pitch'] as const;
+export const TONES = ['simple', 'professional', 'academic', 'executive'] as const;
+export const THEMES = ['corporate', 'minimal', 'startup', 'dark', 'creative'] as const;
+export const CONTENT_DEPTHS = ['basic', 'medium', 'detailed'] as const;
+
+export const SLIDE_COUNT_MIN = 5;
+export const SLIDE_COUNT_MAX = 30;
+export const MAX_TOPIC_LENGTH = 500;
+export const MAX_ADDITIONAL_CONTEXT_LENGTH = 2000;
+export const MAX_INSTRUCTION_LENGTH = 1000;
+
+export interface PPTSettings {
+  presentationType: typeof PRESENTATION_TYPES[number];
+  audienceLevel: typeof AUDIENCE_LEVELS[number];
+  intent: typeof INTENTS[number];
+  tone: typeof TONES[number];
+  slideCount: number;
+  theme: typeof THEMES[number];
+  contentDepth: typeof CONTENT_DEPTHS[number];
+  includeSpeakerNotes: boolean;
+}
+
+export interface Slide {
+  slideNumber: number;
+  title: string;
+  bullets: string[];
+  speakerNotes: string;
+  visualSuggestion?: string;
+  sourceSection?: string;
+}
+
+export const defaultPPTSettings: PPTSettings = {
+  presentationType: 'business',
+  audienceLevel: 'professionals',
+  intent: 'inform',
+  tone: 'professional',
+  slideCount: 12,
+  theme: 'corporate',
+  contentDepth: 'medium',
+  includeSpeakerNotes: true,
+};
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; field: string; error: string };
+
+const enumFields = {
+  presentationType: PRESENTATION_TYPES,
+  audienceLevel: AUDIENCE_LEVELS,
+  intent: INTENTS,
+  tone: TONES,
+  theme: THEMES,
+  contentDepth: CONTENT_DEPTHS,
+} as const;
+
+export function clampSlideCount(count: number): number {
+  return Math.min(SLIDE_COUNT_MAX, Math.max(SLIDE_COUNT_MIN, Math.round(count)));
+}
+
+// Enum fields must match exactly; slideCount is rounded and clamped into range
+export function validatePPTSettings(input: unknown): ValidationResult<PPTSettings> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, field: 'settings', error: 'settings must be an object' };
+  }
+  const raw = input as Record<string, unknown>;
+
+  for (const [field, allowed] of Object.entries(enumFields)) {
+    if (!(allowed as readonly unknown[]).includes(raw[field])) {
+      return {
+        ok: false,
+        field: `settings.${field}`,
+        error: `settings.${field} must be one of: ${allowed.join(', ')}`,
+      };
+    }
+  }
+
+  if (typeof raw.slideCount !== 'number' || !Number.isFinite(raw.slideCount)) {
+    return { ok: false, field: 'settings.slideCount', error: 'settings.slideCount must be a number' };
+  }
+
+  if (typeof raw.includeSpeakerNotes !== 'boolean') {
+    return { ok: false, field: 'settings.includeSpeakerNotes', error: 'settings.includeSpeakerNotes must be a boolean' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      presentationType: raw.presentationType as PPTSettings['presentationType'],
+      audienceLevel: raw.audienceLevel as PPTSettings['audienceLevel'],
+      intent: raw.intent as PPTSettings['intent'],
+      tone: raw.tone as PPTSettings['tone'],
+      slideCount: clampSlideCount(raw.slideCount),
+      theme: raw.theme as PPTSettings['theme'],
+      contentDepth: raw.contentDepth as PPTSettings['contentDepth'],
+      includeSpeakerNotes: raw.includeSpeakerNotes,
+    },
+  };
+}
+
+export function validateTopic(topic: unknown): ValidationResult<string> {
+  if (typeof topic !== 'string' || !topic.trim()) {
+    return { ok: false, field: 'topic', error: 'topic must be a non-empty string' };
+  }
+  if (topic.length > MAX_TOPIC_LENGTH) {
+    return { ok: false, field: 'topic', error: `topic cannot exceed ${MAX_TOPIC_LENGTH} characters` };
+  }
+  return { ok: true, value: topic.trim() };
+}
+
+export function validateAdditionalContext(context: unknown): ValidationResult<string> {
+  if (context === undefined || context === null) {
+    return { ok: true, value: '' };
+  }
+  if (typeof context !== 'string') {
+    return { ok: false, field: 'additionalContext', error: 'additionalContext must be a string' };
+  }
+  if (context.length > MAX_ADDITIONAL_CONTEXT_LENGTH) {
+    return {
+      ok: false,
+      field: 'additionalContext',
+      error: `additionalContext cannot exceed ${MAX_ADDITIONAL_CONTEXT_LENGTH} characters`,
+    };
+  }
+  return { ok: true, value: context.trim() };
+}
+
+export function isWellFormedSlide(slide: unknown): slide is Slide {
+  if (!slide || typeof slide !== 'object') return false;
+  const raw = slide as Record<string, unknown>;
+  return (
+    typeof raw.title === 'string' &&
+    raw.title.trim().length > 0 &&
+    Array.isArray(raw.bullets) &&
+    raw.bullets.length > 0 &&
+    raw.bullets.every((bullet) => typeof bullet === 'string' && bullet.trim().length > 0) &&
+    (raw.speakerNotes === undefined || typeof raw.speakerNotes === 'string')
+  );
+}
@@ -1,12 +1,39 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { decodeDataUrl, detectDocumentKind, extractDocumentSections, type DocumentSection } from "../_shared/document-text.ts";
+import { isTextFile } from "../_shared/file-types.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Characters of extracted text the analysis prompt may include
+const MAX_ANALYSIS_CHARS = 50000;
+
+// File types that get a real text extractor rather than being read as plain text
+const EXTRACTABLE_KINDS = ['pdf', 'docx', 'xlsx', 'pptx', 'csv'];
+
+interface DocumentPage {
+  page: number | null;
+  text: string;
+}
+
+// Prefixes every section with a marker such as [Page 3], [Slide 2: Roadmap] or [Sheet1]
+// so answers can point back to where a passage came from
+function formatSections(sections: DocumentSection[]): string {
+  return sections.map(({ heading, text }) => `[${heading}]\n${text}`).join('\n\n');
+}
+
+// Index-ready pages; headings other than page markers are kept with their text
+function toPages(sections: DocumentSection[], kind: string): DocumentPage[] {
+  return sections.map(({ heading, text, page }) => ({
+    page: page ?? null,
+    text: kind === 'pdf' ? text : `${heading}\n${text}`,
+  }));
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -73,14 +100,62 @@ serve(async (req) => {
 
     console.log('Analyzing file:', fileName, 'Type:', fileType, 'Deep:', analyzeDeep);
 
-    // Deep analysis for PDFs
-    if (analyzeDeep && (fileType === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf'))) {
+    const kind = detectDocumentKind(fileName, fileType);
+    const isExtractable = kind !== null && EXTRACTABLE_KINDS.includes(kind);
+    let sections: DocumentSection[] = [];
+
+    if (isExtractable) {
+      try {
+        sections = await extractDocumentSections(fileName, fileType, fileContent);
+      } catch (error) {
+        console.error(`${kind} text extraction failed:`, error);
+        const message = kind === 'pdf'
+          ? 'Could not read this PDF. It may be corrupted or password protected.'
+          : `Could not read this ${kind.toUpperCase()} file. It may be corrupted or password protected.`;
+        return new Response(
+          JSON.stringify({ error: message }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      console.log('Extracted', sections.length, 'sections from', kind, 'file');
+    }
+
+    const pages = toPages(sections, kind ?? '');
+
+    // Deep analysis for documents with an extractor
+    if (analyzeDeep && isExtractable) {
       const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
       
       if (!LOVABLE_API_KEY) {
         throw new Error("LOVABLE_API_KEY is not configured");
       }
 
+      const extractedText = formatSections(sections);
+
+      // Scanned PDFs and empty files have no text; don't ask the model to guess at their contents
+      if (!extractedText) {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            analysis: {
+              topic: `Document: ${fileName}`,
+              subtopics: [],
+              summary: kind === 'pdf'
+                ? "No selectable text was found in this PDF. It may be a scanned document; try uploading the pages as images instead."
+                : "No text was found in this file.",
+              insights: []
+            },
+            extractedText,
+            pages,
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const promptText = extractedText.length > MAX_ANALYSIS_CHARS
+        ? `${extractedText.substring(0, MAX_ANALYSIS_CHARS)}\n\n[Document truncated for length]`
+        : extractedText;
+
       // Use AI to analyze the document
       const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
         method: "POST",
@@ -97,7 +172,7 @@ serve(async (req) => {
             },
             {
               role: "user",
-              content: `Analyze this document named "${fileName}". Extract the main topic, key subtopics, a comprehensive summary, and advanced insights. Document content (base64): ${fileContent.substring(0, 50000)}`
+              content: `Analyze this document named "${fileName}". Extract the main topic, key subtopics, a comprehensive summary, and advanced insights. Base the analysis only on the text below; each page, slide, sheet or section starts with a bracketed marker and tables are pipe-separated with a header row.\n\n${promptText}`
             }
           ],
           tools: [
@@ -148,7 +223,9 @@ serve(async (req) => {
               subtopics: ["Content analysis", "Key information"],
               summary: "Document uploaded successfully. Content is being processed.",
               insights: []
-            }
+            },
+            extractedText,
+            pages,
           }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -181,7 +258,7 @@ serve(async (req) => {
       console.log("Document analyzed successfully:", analysis.topic);
 
       return new Response(
-        JSON.stringify({ success: true, analysis }),
+        JSON.stringify({ success: true, analysis, extractedText, pages }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -229,14 +306,14 @@ serve(async (req) => {
         }
       }
     } 
-    // For text-based files
-    else if (fileType?.includes('text') || fileType?.includes('json') || fileName.endsWith('.txt') || fileName.endsWith('.md')) {
-      if (fileContent.startsWith('data:')) {
-        const base64Data = fileContent.split(',')[1];
-        extractedText = atob(base64Data);
-      } else {
-        extractedText = fileContent;
-      }
+    else if (isExtractable) {
+      extractedText = formatSections(sections);
+    }
+    // For text, data and source code files
+    else if (isTextFile(fileName, fileType)) {
+      extractedText = fileContent.startsWith('data:')
+        ? new TextDecoder().decode(decodeDataUrl(fileContent))
+        : fileContent;
     }
     // For other documents
     else {
@@ -250,6 +327,7 @@ serve(async (req) => {
         extractedText,
         fileName,
         fileType,
+        ...(isExtractable ? { pages } : {}),
         success: true
       }),
       {
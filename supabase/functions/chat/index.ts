@@ -1,12 +1,67 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { embedText, toVectorLiteral } from "../_shared/embeddings.ts";
+import { MAX_CHAT_MESSAGES, MAX_IMAGE_PARTS, messageText, validateMessageContent, type MessageContent } from "../_shared/chat-content.ts";
+import { isChatModel, toGatewayParams, validateGenerationOptions } from "../_shared/chat-models.ts";
+import { buildPersonaSystemPrompt } from "../_shared/personas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const MAX_DOCUMENT_IDS = 20;
+const MAX_SYSTEM_CONTEXT_CHARS = 120000;
+const RETRIEVED_CHUNK_COUNT = 6;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface Citation {
+  index: number;
+  documentId: string;
+  documentName: string;
+  page: number | null;
+  excerpt: string;
+}
+
+// Finds the chunks of the attached documents closest to the question, numbered for citation
+async function retrieveCitations(
+  supabaseClient: SupabaseClient,
+  documentIds: string[],
+  question: string
+): Promise<Citation[]> {
+  const queryEmbedding = await embedText(question);
+  const { data, error } = await supabaseClient.rpc('match_document_chunks', {
+    query_embedding: toVectorLiteral(queryEmbedding),
+    document_ids: documentIds,
+    match_count: RETRIEVED_CHUNK_COUNT,
+  });
+
+  if (error) throw error;
+
+  return (data ?? []).map((chunk: { document_id: string; document_name: string; page: number | null; content: string }, i: number) => ({
+    index: i + 1,
+    documentId: chunk.document_id,
+    documentName: chunk.document_name,
+    page: chunk.page,
+    excerpt: chunk.content,
+  }));
+}
+
+function formatCitationContext(citations: Citation[]): string {
+  const excerpts = citations.map((citation) => {
+    const location = citation.page ? `${citation.documentName}, page ${citation.page}` : citation.documentName;
+    return `[${citation.index}] (${location})\n${citation.excerpt}`;
+  }).join('\n\n');
+
+  return `## Document Excerpts:
+The following excerpts were retrieved from the user's documents for this question.
+Answer from them where relevant and cite each one you use inline as [n], e.g. [1] or [2][3].
+If the excerpts don't contain the answer, say so rather than guessing.
+
+${excerpts}`;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -30,7 +85,7 @@ serve(async (req) => {
 
     console.log('Chat request from user:', user.id);
 
-    const { messages, systemContext } = await req.json();
+    const { messages, systemContext, documentIds, personaId, model, temperature, max_tokens } = await req.json();
 
     // Input validation
     if (!messages || !Array.isArray(messages)) {
@@ -47,14 +102,16 @@ serve(async (req) => {
       );
     }
 
-    if (messages.length > 50) {
+    if (messages.length > MAX_CHAT_MESSAGES) {
       return new Response(
-        JSON.stringify({ error: 'Messages array cannot exceed 50 messages' }),
+        JSON.stringify({ error: `Messages array cannot exceed ${MAX_CHAT_MESSAGES} messages` }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Validate each message
+    // Validate each message; user messages may be text or text + image content parts
+    const chatMessages: { role: string; content: MessageContent }[] = [];
+    let imageCount = 0;
     for (const msg of messages) {
       if (!msg.role || !['user', 'assistant', 'system'].includes(msg.role)) {
         return new Response(
@@ -62,18 +119,80 @@ serve(async (req) => {
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      if (!msg.content || typeof msg.content !== 'string') {
+      const check = validateMessageContent(msg.content, msg.role);
+      if (check.ok === false) {
         return new Response(
-          JSON.stringify({ error: 'Message content must be a non-empty string' }),
+          JSON.stringify({ error: check.error }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      if (msg.content.length > 10000) {
+      imageCount += check.imageCount;
+      chatMessages.push({ role: msg.role, content: check.value });
+    }
+
+    if (imageCount > MAX_IMAGE_PARTS) {
+      return new Response(
+        JSON.stringify({ error: `A request cannot contain more than ${MAX_IMAGE_PARTS} images` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (systemContext !== undefined && (typeof systemContext !== 'string' || systemContext.length > MAX_SYSTEM_CONTEXT_CHARS)) {
+      return new Response(
+        JSON.stringify({ error: 'systemContext cannot exceed 120,000 characters' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (
+      documentIds !== undefined &&
+      (!Array.isArray(documentIds) ||
+        documentIds.length > MAX_DOCUMENT_IDS ||
+        documentIds.some((id: unknown) => typeof id !== 'string' || !UUID_PATTERN.test(id)))
+    ) {
+      return new Response(
+        JSON.stringify({ error: `documentIds must be an array of at most ${MAX_DOCUMENT_IDS} document IDs` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (personaId !== undefined && (typeof personaId !== 'string' || !UUID_PATTERN.test(personaId))) {
+      return new Response(
+        JSON.stringify({ error: 'personaId must be a persona ID' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // RLS limits this to the caller's own personas
+    let persona = null;
+    if (personaId) {
+      const { data, error: personaError } = await supabaseClient
+        .from('personas')
+        .select('name, system_prompt, default_model, response_style, replace_base_prompt')
+        .eq('id', personaId)
+        .maybeSingle();
+
+      if (personaError) throw personaError;
+      if (!data) {
         return new Response(
-          JSON.stringify({ error: 'Message content cannot exceed 10,000 characters' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({ error: 'Persona not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      persona = data;
+    }
+
+    // An explicit model wins; otherwise the persona's default, if it's still offered
+    const generation = validateGenerationOptions({
+      model: model ?? (isChatModel(persona?.default_model) ? persona.default_model : undefined),
+      temperature,
+      max_tokens,
+    });
+    if (generation.ok === false) {
+      return new Response(
+        JSON.stringify({ error: generation.error, field: generation.field }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
@@ -82,7 +201,7 @@ serve(async (req) => {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
 
-    console.log("Processing chat request with", messages.length, "messages");
+    console.log("Processing chat request with", messages.length, "messages and", imageCount, "images on", generation.value.model);
 
     // Enhanced system prompt for deeper, more advanced responses
     const baseSystemPrompt = `You are Kashif's AI - an advanced, intelligent assistant that provides deep, comprehensive, and context-aware responses.
@@ -108,10 +227,26 @@ serve(async (req) => {
 - Go beyond simple summarization
 - Make connections between concepts in the document`;
 
-    // Combine base prompt with any additional context
-    let fullSystemPrompt = baseSystemPrompt;
+    // Combine base prompt (or the persona's) with any additional context
+    let fullSystemPrompt = persona ? buildPersonaSystemPrompt(baseSystemPrompt, persona) : baseSystemPrompt;
     if (systemContext) {
-      fullSystemPrompt = `${baseSystemPrompt}\n\n## Additional Context:\n${systemContext}`;
+      fullSystemPrompt = `${fullSystemPrompt}\n\n## Additional Context:\n${systemContext}`;
+    }
+
+    let citations: Citation[] = [];
+    const lastUserMessage = [...chatMessages].reverse().find((msg) => msg.role === 'user');
+    const question = lastUserMessage ? messageText(lastUserMessage.content).trim() : '';
+    if (documentIds?.length && question) {
+      try {
+        citations = await retrieveCitations(supabaseClient, documentIds, question);
+        console.log("Retrieved", citations.length, "document chunks");
+      } catch (error) {
+        // Answer without excerpts rather than failing the whole request
+        console.error("Document retrieval failed:", error);
+      }
+    }
+    if (citations.length > 0) {
+      fullSystemPrompt = `${fullSystemPrompt}\n\n${formatCitationContext(citations)}`;
     }
 
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
@@ -121,13 +256,13 @@ serve(async (req) => {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+        ...toGatewayParams(generation.value),
         messages: [
           { 
             role: "system", 
             content: fullSystemPrompt
           },
-          ...messages,
+          ...chatMessages,
         ],
         stream: true,
       }),
@@ -154,7 +289,35 @@ serve(async (req) => {
       });
     }
 
-    return new Response(response.body, {
+    if (citations.length === 0) {
+      return new Response(response.body, {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+      });
+    }
+
+    // Send the citations as an extra SSE event ahead of the model's stream
+    const reader = response.body!.getReader();
+    const body = new ReadableStream({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ citations })}\n\n`));
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          console.error("Chat stream error:", error);
+        } finally {
+          controller.close();
+        }
+      },
+      cancel() {
+        reader.cancel();
+      },
+    });
+
+    return new Response(body, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
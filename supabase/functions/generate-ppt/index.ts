@@ -1,21 +1,56 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { detectDocumentKind, extractDocumentSections, type DocumentSection } from "../_shared/document-text.ts";
+import {
+  MAX_INSTRUCTION_LENGTH,
+  SLIDE_COUNT_MAX,
+  isWellFormedSlide,
+  validateAdditionalContext,
+  validatePPTSettings,
+  validateTopic,
+  type PPTSettings,
+  type Slide,
+} from "../_shared/ppt-settings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface PPTSettings {
-  presentationType: string;
-  audienceLevel: string;
-  intent: string;
-  tone: string;
-  slideCount: number;
-  theme: string;
-  contentDepth: string;
-  includeSpeakerNotes: boolean;
+interface SourceDocument {
+  fileName: string;
+  fileType: string;
+  content: string;
+}
+
+const slideSchema = {
+  type: 'object',
+  properties: {
+    slideNumber: { type: 'number' },
+    title: { type: 'string', description: 'Clear, concise slide title' },
+    bullets: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '3-5 bullet points, max 12 words each',
+    },
+    speakerNotes: { type: 'string', description: '2-5 lines of speaker notes' },
+    visualSuggestion: { type: 'string', description: 'Optional diagram or visual suggestion' },
+    sourceSection: { type: 'string', description: 'Label of the source document section this slide is based on, if any' },
+  },
+  required: ['slideNumber', 'title', 'bullets', 'speakerNotes'],
+  additionalProperties: false,
+};
+
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+const MAX_DOCUMENT_CHARS = 60000;
+const MAX_GENERATION_ATTEMPTS = 2;
+
+function validationError(field: string, error: string): Response {
+  return new Response(
+    JSON.stringify({ error, field }),
+    { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
 }
 
 serve(async (req) => {
@@ -42,11 +77,37 @@ serve(async (req) => {
 
     console.log('PPT generation request from user:', user.id);
 
-    const { topic, additionalContext, settings } = await req.json() as {
-      topic: string;
-      additionalContext?: string;
-      settings: PPTSettings;
+    const body = await req.json() as {
+      mode?: 'generate' | 'regenerate';
+      stream?: boolean;
+      topic: unknown;
+      additionalContext?: unknown;
+      settings: unknown;
+      slides?: Slide[];
+      startIndex?: number;
+      endIndex?: number;
+      instruction?: string;
+      document?: SourceDocument;
     };
+    const { mode, stream, slides, startIndex, endIndex, instruction, document } = body;
+
+    if (mode !== undefined && mode !== 'generate' && mode !== 'regenerate') {
+      return validationError('mode', "mode must be 'generate' or 'regenerate'");
+    }
+
+    const topicCheck = validateTopic(body.topic);
+    if (!topicCheck.ok) return validationError(topicCheck.field, topicCheck.error);
+    const contextCheck = validateAdditionalContext(body.additionalContext);
+    if (!contextCheck.ok) return validationError(contextCheck.field, contextCheck.error);
+    const settingsCheck = validatePPTSettings(body.settings);
+    if (!settingsCheck.ok) return validationError(settingsCheck.field, settingsCheck.error);
+
+    const topic = topicCheck.value;
+    const additionalContext = contextCheck.value;
+    const settings = settingsCheck.value;
+    if (settings.slideCount !== (body.settings as PPTSettings).slideCount) {
+      console.log('Clamped slideCount', (body.settings as PPTSettings).slideCount, 'to', settings.slideCount);
+    }
 
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
@@ -54,50 +115,137 @@ serve(async (req) => {
     }
 
     const systemPrompt = buildSystemPrompt(settings);
-    const userPrompt = buildUserPrompt(topic, additionalContext, settings);
+    let userPrompt: string;
+    let toolName: string;
+    let toolDescription: string;
+    let expectedCount: number;
+    let firstSlideNumber: number;
+
+    if (mode === 'regenerate') {
+      if (!Array.isArray(slides) || slides.length === 0) {
+        return validationError('slides', 'slides must be a non-empty array when regenerating');
+      }
+      if (slides.length > SLIDE_COUNT_MAX) {
+        return validationError('slides', `slides cannot contain more than ${SLIDE_COUNT_MAX} slides`);
+      }
+      const badSlide = slides.findIndex((slide) => typeof slide?.title !== 'string' || !Array.isArray(slide?.bullets));
+      if (badSlide !== -1) {
+        return validationError(`slides[${badSlide}]`, `slides[${badSlide}] must have a title and a bullets array`);
+      }
+      if (!Number.isInteger(startIndex) || startIndex! < 0 || startIndex! >= slides.length) {
+        return validationError('startIndex', `startIndex must be an integer within 0-${slides.length - 1}`);
+      }
+      if (!Number.isInteger(endIndex) || endIndex! < startIndex! || endIndex! >= slides.length) {
+        return validationError('endIndex', `endIndex must be an integer within ${startIndex}-${slides.length - 1}`);
+      }
+      if (!instruction || typeof instruction !== 'string' || !instruction.trim()) {
+        return validationError('instruction', 'instruction must be a non-empty string');
+      }
+      if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+        return validationError('instruction', `instruction cannot exceed ${MAX_INSTRUCTION_LENGTH} characters`);
+      }
+
+      console.log('Regenerating slides', startIndex! + 1, 'to', endIndex! + 1, 'for topic:', topic);
+      userPrompt = buildRegeneratePrompt(topic, slides, startIndex!, endIndex!, instruction.trim());
+      toolName = 'replace_slides';
+      toolDescription = 'Return replacement slides for the requested range, in order';
+      expectedCount = endIndex! - startIndex! + 1;
+      // Replacements keep the numbering of the slides they stand in for
+      firstSlideNumber = startIndex! + 1;
+    } else {
+      console.log('Generating PPT for topic:', topic);
+      console.log('Settings:', JSON.stringify(settings));
+      let sections: DocumentSection[] | undefined;
+      if (document) {
+        if (typeof document.fileName !== 'string' || typeof document.content !== 'string' || !document.content) {
+          return validationError('document', 'document must include fileName and content');
+        }
+        if (!detectDocumentKind(document.fileName, document.fileType ?? '')) {
+          return validationError('document.fileType', 'Unsupported document type. Upload a PDF, DOCX or Markdown file.');
+        }
+        if (document.content.length * 0.75 > MAX_DOCUMENT_BYTES) {
+          return validationError('document.content', 'Document size cannot exceed 20MB');
+        }
+
+        try {
+          sections = await extractDocumentSections(document.fileName, document.fileType ?? '', document.content);
+        } catch (error) {
+          console.error('Error reading document:', error);
+          return validationError('document', 'The document could not be read. Check that it is a valid file of its type.');
+        }
+        if (sections.length === 0) {
+          return validationError('document', 'No readable text was found in the document');
+        }
+        console.log('Building deck from document:', document.fileName, 'with', sections.length, 'sections');
+      }
+
+      userPrompt = buildUserPrompt(topic, additionalContext, settings, sections);
+      toolName = 'generate_presentation';
+      toolDescription = 'Generate a professional presentation with slides';
+      expectedCount = settings.slideCount;
+      firstSlideNumber = 1;
+
+      if (stream) {
+        return await streamPresentation(LOVABLE_API_KEY, systemPrompt, userPrompt, settings.slideCount);
+      }
+    }
+
+    const result = await requestSlides(LOVABLE_API_KEY, systemPrompt, userPrompt, toolName, toolDescription, expectedCount);
+    if (result instanceof Response) {
+      return result;
+    }
+
+    return new Response(
+      JSON.stringify({ slides: result.map((slide, i) => normalizeSlide(slide, firstSlideNumber + i)) }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in generate-ppt function:', error);
+    return new Response(JSON.stringify({ error: 'Presentation generation failed. Please try again.' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
 
-    console.log('Generating PPT for topic:', topic);
-    console.log('Settings:', JSON.stringify(settings));
+// Calls the slide tool until it returns exactly `expected` well-formed slides.
+// When the last attempt still overshoots, the extras are dropped.
+async function requestSlides(
+  apiKey: string,
+  systemPrompt: string,
+  userPrompt: string,
+  toolName: string,
+  toolDescription: string,
+  expected: number
+): Promise<Slide[] | Response> {
+  let prompt = userPrompt;
+  let received: Slide[] = [];
 
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
     const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: 'google/gemini-2.5-flash',
         messages: [
           { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
+          { role: 'user', content: prompt },
         ],
         tools: [
           {
             type: 'function',
             function: {
-              name: 'generate_presentation',
-              description: 'Generate a professional presentation with slides',
+              name: toolName,
+              description: toolDescription,
               parameters: {
                 type: 'object',
                 properties: {
                   slides: {
                     type: 'array',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        slideNumber: { type: 'number' },
-                        title: { type: 'string', description: 'Clear, concise slide title' },
-                        bullets: {
-                          type: 'array',
-                          items: { type: 'string' },
-                          description: '3-5 bullet points, max 12 words each',
-                        },
-                        speakerNotes: { type: 'string', description: '2-5 lines of speaker notes' },
-                        visualSuggestion: { type: 'string', description: 'Optional diagram or visual suggestion' },
-                      },
-                      required: ['slideNumber', 'title', 'bullets', 'speakerNotes'],
-                      additionalProperties: false,
-                    },
+                    items: slideSchema,
                   },
                 },
                 required: ['slides'],
@@ -106,14 +254,14 @@ serve(async (req) => {
             },
           },
         ],
-        tool_choice: { type: 'function', function: { name: 'generate_presentation' } },
+        tool_choice: { type: 'function', function: { name: toolName } },
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
       console.error('AI gateway error:', response.status, errorText);
-      
+
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }), {
           status: 429,
@@ -126,7 +274,7 @@ serve(async (req) => {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      
+
       throw new Error(`AI gateway error: ${response.status}`);
     }
 
@@ -134,23 +282,222 @@ serve(async (req) => {
     console.log('AI response received');
 
     const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
-    if (!toolCall?.function?.arguments) {
-      throw new Error('Invalid response format from AI');
+    let rawSlides: unknown[] = [];
+    try {
+      const result = JSON.parse(toolCall?.function?.arguments ?? '{}');
+      rawSlides = Array.isArray(result.slides) ? result.slides : [];
+    } catch {
+      console.warn('Tool call arguments were not valid JSON');
     }
 
-    const result = JSON.parse(toolCall.function.arguments);
+    received = rawSlides.filter(isWellFormedSlide);
+    if (received.length === expected) {
+      return received;
+    }
 
-    return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
-  } catch (error) {
-    console.error('Error in generate-ppt function:', error);
-    return new Response(JSON.stringify({ error: 'Presentation generation failed. Please try again.' }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    console.warn(
+      `Attempt ${attempt}: expected ${expected} well-formed slides, got ${received.length} of ${rawSlides.length}`
+    );
+    prompt = `${userPrompt}\n\nYour previous answer contained ${received.length} usable slide(s) instead of ${expected}. ` +
+      `Every slide needs a non-empty title and at least one bullet. Return exactly ${expected} slide${expected === 1 ? '' : 's'}.`;
   }
-});
+
+  if (received.length > expected) {
+    return received.slice(0, expected);
+  }
+  throw new Error(`Expected ${expected} slides, got ${received.length}`);
+}
+
+const STREAM_FORMAT_INSTRUCTIONS = `OUTPUT FORMAT:
+Output one slide per line, each line a single-line JSON object with the keys
+slideNumber, title, bullets (array of strings), speakerNotes and optionally visualSuggestion and sourceSection.
+Do not wrap the output in code fences and do not write anything other than the slide lines.`;
+
+function openSlideStream(apiKey: string, systemPrompt: string, userPrompt: string): Promise<Response> {
+  return fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: 'google/gemini-2.5-flash',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `${userPrompt}\n\n${STREAM_FORMAT_INSTRUCTIONS}` },
+      ],
+      stream: true,
+    }),
+  });
+}
+
+// Streams the deck as SSE, one `data: {"slide": ...}` event per completed slide line.
+// Malformed lines are dropped, slides past slideCount are ignored, and a short deck is
+// topped up with one continuation request before the stream ends.
+async function streamPresentation(
+  apiKey: string,
+  systemPrompt: string,
+  userPrompt: string,
+  slideCount: number
+): Promise<Response> {
+  const upstream = await openSlideStream(apiKey, systemPrompt, userPrompt);
+
+  if (!upstream.ok || !upstream.body) {
+    const errorText = await upstream.text();
+    console.error('AI gateway error:', upstream.status, errorText);
+
+    if (upstream.status === 429) {
+      return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    if (upstream.status === 402) {
+      return new Response(JSON.stringify({ error: 'API credits exhausted. Please add funds.' }), {
+        status: 402,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    throw new Error(`AI gateway error: ${upstream.status}`);
+  }
+
+  let reader = upstream.body.getReader();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const titles: string[] = [];
+
+      const send = (payload: unknown) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      const emitSlideLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('{') || titles.length >= slideCount) return;
+        try {
+          const parsed = JSON.parse(trimmed);
+          if (!isWellFormedSlide(parsed)) {
+            console.warn('Skipping incomplete slide line:', trimmed.substring(0, 200));
+            return;
+          }
+          const slide = normalizeSlide(parsed, titles.length + 1);
+          titles.push(slide.title);
+          send({ slide });
+        } catch {
+          console.warn('Skipping malformed slide line:', trimmed.substring(0, 200));
+        }
+      };
+
+      try {
+        for (let attempt = 1; ; attempt++) {
+          await pumpSlideLines(reader, emitSlideLine, () => titles.length >= slideCount);
+          if (titles.length >= slideCount || attempt >= MAX_GENERATION_ATTEMPTS) break;
+
+          console.warn('Stream ended after', titles.length, 'of', slideCount, 'slides; requesting the rest');
+          const continuation = await openSlideStream(
+            apiKey,
+            systemPrompt,
+            buildContinuationPrompt(userPrompt, titles, slideCount)
+          );
+          if (!continuation.ok || !continuation.body) {
+            console.error('AI gateway error on continuation:', continuation.status, await continuation.text());
+            break;
+          }
+          reader = continuation.body.getReader();
+        }
+
+        console.log('Streamed', titles.length, 'of', slideCount, 'slides');
+        if (titles.length > 0 && titles.length < slideCount) {
+          send({ warning: `Only ${titles.length} of ${slideCount} slides could be generated.` });
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      } catch (error) {
+        console.error('Slide stream error:', error);
+        send({ error: 'Presentation generation was interrupted. Please try again.' });
+      } finally {
+        controller.close();
+      }
+    },
+    cancel() {
+      // Client cancelled; stop pulling from the gateway
+      reader.cancel();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' },
+  });
+}
+
+// Feeds each line of model output to onLine, stopping early once isComplete() is true
+async function pumpSlideLines(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onLine: (line: string) => void,
+  isComplete: () => boolean
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let sseBuffer = '';
+  let lineBuffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    sseBuffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = sseBuffer.indexOf('\n')) !== -1) {
+      let line = sseBuffer.slice(0, newlineIndex);
+      sseBuffer = sseBuffer.slice(newlineIndex + 1);
+
+      if (line.endsWith('\r')) line = line.slice(0, -1);
+      if (!line.startsWith('data: ')) continue;
+
+      const jsonStr = line.slice(6).trim();
+      if (jsonStr === '[DONE]') {
+        onLine(lineBuffer);
+        return;
+      }
+
+      // Only whole lines reach here, so one that doesn't parse is malformed rather than partial
+      let content: string | undefined;
+      try {
+        content = JSON.parse(jsonStr).choices?.[0]?.delta?.content;
+      } catch {
+        console.warn('Skipping unparseable stream line:', jsonStr.slice(0, 200));
+        continue;
+      }
+      if (!content) continue;
+
+      lineBuffer += content;
+      let slideBreak: number;
+      while ((slideBreak = lineBuffer.indexOf('\n')) !== -1) {
+        onLine(lineBuffer.slice(0, slideBreak));
+        lineBuffer = lineBuffer.slice(slideBreak + 1);
+      }
+
+      if (isComplete()) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+
+  onLine(lineBuffer);
+}
+
+function normalizeSlide(raw: Partial<Slide>, slideNumber: number): Slide {
+  return {
+    slideNumber,
+    title: typeof raw.title === 'string' ? raw.title : `Slide ${slideNumber}`,
+    bullets: Array.isArray(raw.bullets) ? raw.bullets.filter((b) => typeof b === 'string') : [],
+    speakerNotes: typeof raw.speakerNotes === 'string' ? raw.speakerNotes : '',
+    ...(typeof raw.visualSuggestion === 'string' && raw.visualSuggestion ? { visualSuggestion: raw.visualSuggestion } : {}),
+    ...(typeof raw.sourceSection === 'string' && raw.sourceSection ? { sourceSection: raw.sourceSection } : {}),
+  };
+}
 
 function buildSystemPrompt(settings: PPTSettings): string {
   return `You are Kashif's AI PPT Generator - an expert presentation creator.
@@ -194,14 +541,75 @@ STORYTELLING LOGIC:
 ${settings.includeSpeakerNotes ? 'SPEAKER NOTES: Include 2-5 lines of speaker notes per slide with key talking points.' : ''}`;
 }
 
-function buildUserPrompt(topic: string, additionalContext: string | undefined, settings: PPTSettings): string {
+function buildUserPrompt(
+  topic: string,
+  additionalContext: string | undefined,
+  settings: PPTSettings,
+  sections?: DocumentSection[]
+): string {
   let prompt = `Create a ${settings.slideCount}-slide professional presentation on: "${topic}"`;
   
   if (additionalContext) {
     prompt += `\n\nAdditional context: ${additionalContext}`;
   }
 
+  if (sections && sections.length > 0) {
+    prompt += `\n\nSOURCE DOCUMENT:\n${formatDocumentSections(sections)}`;
+    prompt += `\n\nBase every slide on the source document's actual content. Do not invent facts, figures or claims that are not in it.`;
+    prompt += ` Set sourceSection on each content slide to the label of the section it draws from (e.g. "S3: Market Analysis").`;
+    prompt += ` Structural slides such as the title, agenda or thank-you slide may omit sourceSection.`;
+  }
+
   prompt += `\n\nGenerate exactly ${settings.slideCount} slides following the structure requirements.`;
   
   return prompt;
 }
+
+function buildContinuationPrompt(userPrompt: string, titles: string[], slideCount: number): string {
+  const existing = titles.map((title, index) => `${index + 1}. ${title}`).join('\n');
+  return `${userPrompt}
+
+The first ${titles.length} slides have already been written:
+${existing}
+
+Continue the deck: output only slides ${titles.length + 1} to ${slideCount}, keeping the storyline consistent and without repeating earlier slides.`;
+}
+
+function buildRegeneratePrompt(topic: string, slides: Slide[], startIndex: number, endIndex: number, instruction: string): string {
+  const deck = slides.map((slide, index) => {
+    const marker = index >= startIndex && index <= endIndex ? ' [REWRITE]' : '';
+    return `Slide ${index + 1}${marker}: ${slide.title}\n${slide.bullets.map(b => `- ${b}`).join('\n')}`;
+  }).join('\n\n');
+
+  const count = endIndex - startIndex + 1;
+  const range = count === 1 ? `slide ${startIndex + 1}` : `slides ${startIndex + 1}-${endIndex + 1}`;
+
+  return `You are revising an existing presentation on: "${topic}"
+
+Current deck:
+${deck}
+
+Rewrite ${range} (marked [REWRITE]) following this instruction: "${instruction}"
+
+Keep the rest of the deck as context: stay consistent with surrounding slides, avoid repeating their content, and preserve the overall storyline.
+Return exactly ${count} slide${count === 1 ? '' : 's'}, in order, replacing only the marked slides.`;
+}
+
+// Labels each section S1..Sn and trims the document to fit the prompt budget
+function formatDocumentSections(sections: DocumentSection[]): string {
+  let remaining = MAX_DOCUMENT_CHARS;
+  const parts: string[] = [];
+
+  for (const [index, section] of sections.entries()) {
+    if (remaining <= 0) {
+      parts.push(`[${sections.length - index} more section(s) omitted for length]`);
+      break;
+    }
+    const label = `S${index + 1}: ${section.heading}${section.page && !section.heading.startsWith('Page') ? ` (page ${section.page})` : ''}`;
+    const text = section.text.length > remaining ? `${section.text.slice(0, remaining)}...` : section.text;
+    remaining -= text.length;
+    parts.push(`[${label}]\n${text}`);
+  }
+
+  return parts.join('\n\n');
+}
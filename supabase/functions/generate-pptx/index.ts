@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import pptxgen from "https://esm.sh/pptxgenjs@3.12.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface Slide {
+  slideNumber: number;
+  title: string;
+  bullets: string[];
+  speakerNotes: string;
+  visualSuggestion?: string;
+}
+
+interface PPTSettings {
+  theme: string;
+  includeSpeakerNotes: boolean;
+}
+
+interface ThemeColors {
+  background: string;
+  title: string;
+  text: string;
+  accent: string;
+  panel: string;
+}
+
+// Hex equivalents of the Tailwind classes used by themeStyles in PPTSlidePreview
+const themeColors: Record<string, ThemeColors> = {
+  corporate: { background: 'F8FAFC', title: '0F172A', text: '334155', accent: '2563EB', panel: 'E2E8F0' },
+  minimal: { background: 'FFFFFF', title: '111827', text: '4B5563', accent: '1F2937', panel: 'F3F4F6' },
+  startup: { background: 'F5F3FF', title: '4C1D95', text: '6D28D9', accent: '7C3AED', panel: 'EDE9FE' },
+  dark: { background: '0F172A', title: 'FFFFFF', text: 'CBD5E1', accent: '06B6D4', panel: '1E293B' },
+  creative: { background: 'FFF7ED', title: '7C2D12', text: '9A3412', accent: 'F97316', panel: 'FFEDD5' },
+};
+
+const MAX_SLIDES = 50;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify user authentication
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized - Please log in' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('PPTX export request from user:', user.id);
+
+    const { slides, settings } = await req.json() as {
+      slides: Slide[];
+      settings?: PPTSettings;
+    };
+
+    // Input validation
+    if (!Array.isArray(slides) || slides.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'slides must be a non-empty array' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (slides.length > MAX_SLIDES) {
+      return new Response(
+        JSON.stringify({ error: `slides cannot exceed ${MAX_SLIDES} entries` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    for (const slide of slides) {
+      if (!slide || typeof slide.title !== 'string' || !Array.isArray(slide.bullets)) {
+        return new Response(
+          JSON.stringify({ error: 'Each slide must have a title and a bullets array' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const colors = themeColors[settings?.theme ?? ''] ?? themeColors.corporate;
+    const includeNotes = settings?.includeSpeakerNotes ?? true;
+
+    const pptx = new pptxgen();
+    pptx.layout = 'LAYOUT_16x9';
+    pptx.title = slides[0].title;
+    pptx.company = "Kashif's AI";
+
+    slides.forEach((slide, index) => addSlide(pptx, slide, index, colors, includeNotes));
+
+    const base64 = await pptx.write({ outputType: 'base64' }) as string;
+
+    console.log('PPTX generated with', slides.length, 'slides');
+
+    return new Response(
+      JSON.stringify({ base64 }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in generate-pptx function:', error);
+    return new Response(
+      JSON.stringify({ error: 'PowerPoint export failed. Please try again.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+function addSlide(pptx: pptxgen, slide: Slide, index: number, colors: ThemeColors, includeNotes: boolean) {
+  const pptSlide = pptx.addSlide();
+  pptSlide.background = { color: colors.background };
+
+  // Accent bar and slide number, mirroring the preview header
+  pptSlide.addShape(pptx.ShapeType.rect, {
+    x: 0.5, y: 0.4, w: 0.8, h: 0.06,
+    fill: { color: colors.accent },
+    line: { color: colors.accent },
+  });
+  pptSlide.addText(`Slide ${slide.slideNumber ?? index + 1}`, {
+    x: 7.5, y: 0.25, w: 2, h: 0.35,
+    fontSize: 10, color: colors.text, align: 'right',
+  });
+
+  pptSlide.addText(slide.title, {
+    x: 0.5, y: 0.6, w: 9, h: 0.9,
+    fontSize: 30, bold: true, color: colors.title, fontFace: 'Calibri',
+    valign: 'middle', fit: 'shrink',
+  });
+
+  const bullets = slide.bullets.filter((bullet) => typeof bullet === 'string' && bullet.trim());
+  if (bullets.length > 0) {
+    pptSlide.addText(
+      bullets.map((bullet) => ({
+        text: bullet,
+        options: { bullet: { indent: 18 }, color: colors.text, breakLine: true },
+      })),
+      {
+        x: 0.5, y: 1.6, w: 9, h: slide.visualSuggestion ? 3.0 : 3.6,
+        fontSize: 18, fontFace: 'Calibri', valign: 'top',
+        paraSpaceAfter: 8, fit: 'shrink',
+      }
+    );
+  }
+
+  if (slide.visualSuggestion) {
+    pptSlide.addText(`Visual: ${slide.visualSuggestion}`, {
+      x: 0.5, y: 4.75, w: 9, h: 0.55,
+      fontSize: 11, italic: true, color: colors.text,
+      fill: { color: colors.panel }, valign: 'middle', margin: 6,
+    });
+  }
+
+  if (includeNotes && slide.speakerNotes) {
+    pptSlide.addNotes(slide.speakerNotes);
+  }
+}
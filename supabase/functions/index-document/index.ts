@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chunkPages, type PageText } from "../_shared/chunking.ts";
+import { embedText, toVectorLiteral } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_CHUNKS_PER_DOCUMENT = 400;
+const INSERT_BATCH_SIZE = 50;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify user authentication
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized - Please log in' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { documentId, pages } = await req.json() as {
+      documentId: string;
+      pages: PageText[];
+    };
+
+    // Input validation
+    if (!documentId || typeof documentId !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'documentId must be a non-empty string' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (
+      !Array.isArray(pages) ||
+      pages.some((page) => typeof page?.text !== 'string' || (page.page !== null && !Number.isInteger(page.page)))
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'pages must be an array of { page, text } objects' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // RLS limits this to the caller's own documents
+    const { data: document, error: documentError } = await supabaseClient
+      .from('documents')
+      .select('id, name')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (documentError) throw documentError;
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const chunks = chunkPages(pages);
+    if (chunks.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'The document has no text to index' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+      console.warn('Indexing only the first', MAX_CHUNKS_PER_DOCUMENT, 'of', chunks.length, 'chunks for', document.name);
+    }
+    const indexedChunks = chunks.slice(0, MAX_CHUNKS_PER_DOCUMENT);
+
+    console.log('Indexing document', document.name, 'for user', user.id, 'with', indexedChunks.length, 'chunks');
+
+    // Re-indexing replaces any chunks from an earlier run
+    const { error: clearError } = await supabaseClient.from('document_chunks').delete().eq('document_id', document.id);
+    if (clearError) throw clearError;
+
+    try {
+      for (let start = 0; start < indexedChunks.length; start += INSERT_BATCH_SIZE) {
+        const batch = indexedChunks.slice(start, start + INSERT_BATCH_SIZE);
+        const rows = [];
+        for (const chunk of batch) {
+          rows.push({
+            document_id: document.id,
+            user_id: user.id,
+            chunk_index: chunk.index,
+            page: chunk.page,
+            content: chunk.content,
+            embedding: toVectorLiteral(await embedText(chunk.content)),
+          });
+        }
+
+        const { error: chunkError } = await supabaseClient.from('document_chunks').insert(rows);
+        if (chunkError) throw chunkError;
+      }
+    } catch (error) {
+      // Don't leave a partial index behind that retrieval would silently search
+      await supabaseClient.from('document_chunks').delete().eq('document_id', document.id);
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ documentId: document.id, chunkCount: indexedChunks.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in index-document function:', error);
+    return new Response(
+      JSON.stringify({ error: 'Document indexing failed. Please try again.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_TITLE_LENGTH = 60;
+// Characters of transcript the model sees; the opening exchanges say what a chat is about
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+interface StoredMessage {
+  id: string;
+  parent_id: string | null;
+  role: string;
+  content: string;
+}
+
+// The branch the user is viewing, oldest first; linear history when no branch was recorded
+function currentBranch(messages: StoredMessage[], leafId: string | null): StoredMessage[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  if (!leafId || !byId.has(leafId)) return messages;
+
+  const path: StoredMessage[] = [];
+  let node = byId.get(leafId);
+  while (node) {
+    path.unshift(node);
+    node = node.parent_id ? byId.get(node.parent_id) : undefined;
+  }
+  return path;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify user authentication
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized - Please log in' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { conversationId } = await req.json();
+
+    // Input validation
+    if (typeof conversationId !== 'string' || !UUID_PATTERN.test(conversationId)) {
+      return new Response(
+        JSON.stringify({ error: 'conversationId must be a conversation ID' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // RLS limits both reads to the caller's own rows
+    const { data: conversation, error: conversationError } = await supabaseClient
+      .from('conversations')
+      .select('id, type, title, current_leaf_id, title_edited_at')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (conversationError) throw conversationError;
+    if (!conversation) {
+      return new Response(
+        JSON.stringify({ error: 'Conversation not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (conversation.type !== 'chat') {
+      return new Response(
+        JSON.stringify({ error: 'Only chat conversations can be summarized' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: messages, error: messagesError } = await supabaseClient
+      .from('messages')
+      .select('id, parent_id, role, content')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (messagesError) throw messagesError;
+
+    const branch = currentBranch(messages ?? [], conversation.current_leaf_id);
+    if (!branch.some((m) => m.role === 'assistant')) {
+      return new Response(
+        JSON.stringify({ error: 'The conversation needs at least one answer before it can be titled' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let transcript = branch
+      .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n\n');
+    if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+      transcript = `${transcript.substring(0, MAX_TRANSCRIPT_CHARS)}\n\n[Transcript truncated]`;
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+
+    console.log('Summarizing conversation', conversationId, 'for user', user.id);
+
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${LOVABLE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash-lite",
+        messages: [
+          {
+            role: "system",
+            content: "You name and summarize chat conversations for a history list. You MUST use the set_conversation_summary function."
+          },
+          {
+            role: "user",
+            content: `Write a short, specific title (at most 6 words, no quotes or trailing punctuation) and a one-paragraph summary of what was asked and answered in this conversation.\n\n${transcript}`
+          }
+        ],
+        tools: [
+          {
+            type: "function",
+            function: {
+              name: "set_conversation_summary",
+              description: "Set the title and summary of a conversation",
+              parameters: {
+                type: "object",
+                properties: {
+                  title: {
+                    type: "string",
+                    description: "Short, specific title of at most 6 words"
+                  },
+                  summary: {
+                    type: "string",
+                    description: "One paragraph (2-4 sentences) summarizing the conversation"
+                  }
+                },
+                required: ["title", "summary"],
+                additionalProperties: false
+              }
+            }
+          }
+        ],
+        tool_choice: { type: "function", function: { name: "set_conversation_summary" } }
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (response.status === 402) {
+        return new Response(JSON.stringify({ error: "Payment required, please add funds to your Lovable AI workspace." }), {
+          status: 402,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      console.error("AI gateway error:", response.status, await response.text());
+      throw new Error("AI gateway error");
+    }
+
+    const aiData = await response.json();
+    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
+    let result: { title?: unknown; summary?: unknown } = {};
+    try {
+      result = JSON.parse(toolCall?.function?.arguments ?? '{}');
+    } catch (e) {
+      console.error("Failed to parse tool call:", e);
+    }
+
+    const title = typeof result.title === 'string'
+      ? result.title.trim().replace(/^["']|["'.]$/g, '').substring(0, MAX_TITLE_LENGTH)
+      : '';
+    const summary = typeof result.summary === 'string' ? result.summary.trim() : '';
+    if (!title) {
+      throw new Error("The model did not return a title");
+    }
+
+    // A title the user renamed in History is kept; only the summary is refreshed
+    const keepsTitle = !!conversation.title_edited_at;
+    const { error: updateError } = await supabaseClient
+      .from('conversations')
+      .update(keepsTitle ? { summary: summary || null } : { title, summary: summary || null })
+      .eq('id', conversationId);
+
+    if (updateError) throw updateError;
+
+    return new Response(
+      JSON.stringify({ title: keepsTitle ? conversation.title : title, summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in summarize-conversation function:', error);
+    return new Response(
+      JSON.stringify({ error: 'Could not summarize the conversation. Please try again.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+-- Create messages table to persist chat transcripts
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  files JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_messages_conversation_id ON public.messages (conversation_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own messages
+CREATE POLICY "Users can view their own messages"
+ON public.messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can only add messages to conversations they own
+CREATE POLICY "Users can create their own messages"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id = conversation_id
+    AND conversations.user_id = auth.uid()
+  )
+);
+
+-- Users can update their own messages
+CREATE POLICY "Users can update their own messages"
+ON public.messages
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete their own messages
+CREATE POLICY "Users can delete their own messages"
+ON public.messages
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Bump the parent conversation so History stays ordered by latest activity
+CREATE OR REPLACE FUNCTION public.touch_conversation_on_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER touch_conversation_on_message
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_conversation_on_message();
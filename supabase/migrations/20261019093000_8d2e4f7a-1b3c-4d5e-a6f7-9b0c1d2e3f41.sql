@@ -0,0 +1,100 @@
+-- Create presentations table to store generated slide decks
+CREATE TABLE public.presentations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL UNIQUE REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  topic TEXT NOT NULL,
+  slides JSONB NOT NULL DEFAULT '[]'::jsonb,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.presentations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own presentations"
+ON public.presentations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own presentations"
+ON public.presentations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id = conversation_id
+    AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own presentations"
+ON public.presentations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own presentations"
+ON public.presentations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_presentations_updated_at
+BEFORE UPDATE ON public.presentations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create generated_images table; image bytes live in the generated-images bucket
+CREATE TABLE public.generated_images (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  prompt TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_generated_images_conversation_id ON public.generated_images (conversation_id, created_at);
+
+ALTER TABLE public.generated_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own images"
+ON public.generated_images
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own images"
+ON public.generated_images
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id = conversation_id
+    AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own images"
+ON public.generated_images
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Private bucket, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('generated-images', 'generated-images', false);
+
+CREATE POLICY "Users can view their own generated images"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'generated-images' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own generated images"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'generated-images' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own generated images"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'generated-images' AND auth.uid()::text = (storage.foldername(name))[1]);
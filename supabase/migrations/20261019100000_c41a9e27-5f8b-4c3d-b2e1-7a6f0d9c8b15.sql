@@ -0,0 +1,10 @@
+-- Keep every generated deck as a version instead of one deck per conversation
+ALTER TABLE public.presentations
+  ADD COLUMN additional_context TEXT,
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.presentations
+  DROP CONSTRAINT presentations_conversation_id_key;
+
+ALTER TABLE public.presentations
+  ADD CONSTRAINT presentations_conversation_id_version_key UNIQUE (conversation_id, version);
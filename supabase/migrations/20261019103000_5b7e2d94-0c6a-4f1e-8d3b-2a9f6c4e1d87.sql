@@ -0,0 +1,108 @@
+-- Enable pgvector for document embeddings
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Create documents table; one row per uploaded file that has been indexed for retrieval
+CREATE TABLE public.documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  size BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_documents_user_id ON public.documents (user_id, created_at DESC);
+
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own documents"
+ON public.documents
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own documents"
+ON public.documents
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own documents"
+ON public.documents
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create document_chunks table; embeddings come from the gte-small model (384 dimensions)
+CREATE TABLE public.document_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  page INTEGER,
+  content TEXT NOT NULL,
+  embedding vector(384) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_document_chunks_document_id ON public.document_chunks (document_id, chunk_index);
+CREATE INDEX idx_document_chunks_embedding ON public.document_chunks USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document chunks"
+ON public.document_chunks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document chunks"
+ON public.document_chunks
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own document chunks"
+ON public.document_chunks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Nearest chunks within the given documents; runs as the caller so RLS still applies
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding vector(384),
+  document_ids UUID[],
+  match_count INTEGER DEFAULT 6,
+  min_similarity DOUBLE PRECISION DEFAULT 0.2
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  page INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    documents.name,
+    document_chunks.page,
+    document_chunks.content,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks
+  JOIN public.documents ON documents.id = document_chunks.document_id
+  WHERE document_chunks.document_id = ANY(document_ids)
+    AND 1 - (document_chunks.embedding <=> query_embedding) >= min_similarity
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Assistant replies keep the document excerpts they cited
+ALTER TABLE public.messages
+  ADD COLUMN citations JSONB;
@@ -0,0 +1,35 @@
+-- Keep uploaded files, their extracted text and analysis in the document library
+ALTER TABLE public.documents
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN extracted_text TEXT,
+  ADD COLUMN analysis JSONB,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE POLICY "Users can update their own documents"
+ON public.documents
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_documents_updated_at
+BEFORE UPDATE ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false);
+
+CREATE POLICY "Users can view their own library files"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own library files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own library files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
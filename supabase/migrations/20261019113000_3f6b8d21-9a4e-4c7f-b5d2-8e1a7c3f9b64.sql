@@ -0,0 +1,2 @@
+-- Record which model produced each assistant message so answers can be compared across models
+ALTER TABLE public.messages ADD COLUMN model TEXT;
@@ -0,0 +1,43 @@
+-- User-defined assistant personas, chosen when a chat starts
+CREATE TABLE public.personas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  system_prompt TEXT NOT NULL,
+  default_model TEXT,
+  response_style TEXT NOT NULL DEFAULT 'structured' CHECK (response_style IN ('structured', 'concise', 'conversational', 'code')),
+  replace_base_prompt BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.personas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own personas"
+ON public.personas
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own personas"
+ON public.personas
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own personas"
+ON public.personas
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own personas"
+ON public.personas
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_personas_updated_at
+BEFORE UPDATE ON public.personas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Conversations keep their persona; deleting a persona reverts them to the default assistant
+ALTER TABLE public.conversations
+  ADD COLUMN persona_id UUID REFERENCES public.personas(id) ON DELETE SET NULL;
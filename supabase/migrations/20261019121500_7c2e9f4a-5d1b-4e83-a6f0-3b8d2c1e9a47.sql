@@ -0,0 +1,6 @@
+-- Regenerating or editing hides the replaced messages instead of deleting them
+ALTER TABLE public.messages
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_messages_visible ON public.messages (conversation_id, created_at)
+  WHERE hidden_at IS NULL;
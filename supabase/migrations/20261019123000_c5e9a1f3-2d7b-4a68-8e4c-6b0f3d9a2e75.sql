@@ -0,0 +1,26 @@
+-- Store messages as a tree so edits and regenerations become sibling branches
+ALTER TABLE public.messages
+  ADD COLUMN parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX messages_parent_id_idx ON public.messages (parent_id);
+
+-- Each existing message hangs off the latest earlier message that was still visible when it was written,
+-- so answers and questions hidden by a regenerate or edit become older siblings of what replaced them
+UPDATE public.messages
+SET parent_id = (
+  SELECT previous.id
+  FROM public.messages AS previous
+  WHERE previous.conversation_id = public.messages.conversation_id
+    AND (previous.created_at, previous.id) < (public.messages.created_at, public.messages.id)
+    AND (previous.hidden_at IS NULL OR previous.hidden_at > public.messages.created_at)
+  ORDER BY previous.created_at DESC, previous.id DESC
+  LIMIT 1
+);
+
+-- The last message of the branch the user was viewing, restored when the conversation is reopened
+ALTER TABLE public.conversations
+  ADD COLUMN current_leaf_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Branches replace hiding
+DROP INDEX public.idx_messages_visible;
+ALTER TABLE public.messages DROP COLUMN hidden_at;
@@ -0,0 +1,2 @@
+-- One-paragraph summary generated alongside the conversation title
+ALTER TABLE public.conversations ADD COLUMN summary TEXT;
@@ -0,0 +1,3 @@
+-- Set when the user renames a conversation; generated titles never replace a title the user chose
+ALTER TABLE public.conversations
+  ADD COLUMN title_edited_at TIMESTAMP WITH TIME ZONE;
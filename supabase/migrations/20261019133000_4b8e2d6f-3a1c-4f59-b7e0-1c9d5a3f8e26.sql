@@ -0,0 +1,131 @@
+-- Searchable text of a deck: slide titles and bullets in order
+CREATE OR REPLACE FUNCTION public.slides_search_text(slides JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(string_agg(
+    concat_ws(' ',
+      slide->>'title',
+      CASE WHEN jsonb_typeof(slide->'bullets') = 'array' THEN (
+        SELECT string_agg(bullet, ' ') FROM jsonb_array_elements_text(slide->'bullets') AS bullet
+      ) END
+    ),
+    ' '
+  ), '')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(slides) = 'array' THEN slides ELSE '[]'::jsonb END) AS slide;
+$$;
+
+-- Full-text indexes; search_history repeats these expressions exactly so the planner can use them
+CREATE INDEX idx_conversations_search ON public.conversations
+  USING gin (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(summary, '')));
+
+CREATE INDEX idx_messages_search ON public.messages
+  USING gin (to_tsvector('english', content));
+
+CREATE INDEX idx_presentations_search ON public.presentations
+  USING gin (to_tsvector('english', topic || ' ' || public.slides_search_text(slides)));
+
+CREATE INDEX idx_generated_images_search ON public.generated_images
+  USING gin (to_tsvector('english', prompt));
+
+-- Search endpoint for History; runs as the caller so RLS limits hits to their own rows.
+-- Decks only match their latest version. Snippets mark matches with ⟦ and ⟧.
+CREATE OR REPLACE FUNCTION public.search_history(
+  search_query TEXT,
+  conversation_types TEXT[] DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id UUID,
+  conversation_type TEXT,
+  conversation_title TEXT,
+  source TEXT,
+  message_id UUID,
+  snippet TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  hits AS (
+    SELECT
+      conversations.id AS conversation_id,
+      'title' AS source,
+      NULL::UUID AS message_id,
+      coalesce(conversations.title, '') || ' ' || coalesce(conversations.summary, '') AS body,
+      ts_rank(to_tsvector('english', coalesce(conversations.title, '') || ' ' || coalesce(conversations.summary, '')), query.q) AS rank,
+      conversations.updated_at AS created_at
+    FROM public.conversations, query
+    WHERE to_tsvector('english', coalesce(conversations.title, '') || ' ' || coalesce(conversations.summary, '')) @@ query.q
+
+    UNION ALL
+
+    SELECT
+      messages.conversation_id,
+      'message',
+      messages.id,
+      messages.content,
+      ts_rank(to_tsvector('english', messages.content), query.q),
+      messages.created_at
+    FROM public.messages, query
+    WHERE to_tsvector('english', messages.content) @@ query.q
+
+    UNION ALL
+
+    SELECT
+      presentations.conversation_id,
+      'slides',
+      NULL::UUID,
+      presentations.topic || ' ' || public.slides_search_text(presentations.slides),
+      ts_rank(to_tsvector('english', presentations.topic || ' ' || public.slides_search_text(presentations.slides)), query.q),
+      presentations.updated_at
+    FROM public.presentations, query
+    WHERE to_tsvector('english', presentations.topic || ' ' || public.slides_search_text(presentations.slides)) @@ query.q
+      AND presentations.version = (
+        SELECT max(latest.version) FROM public.presentations AS latest
+        WHERE latest.conversation_id = presentations.conversation_id
+      )
+
+    UNION ALL
+
+    SELECT
+      generated_images.conversation_id,
+      'image',
+      NULL::UUID,
+      generated_images.prompt,
+      ts_rank(to_tsvector('english', generated_images.prompt), query.q),
+      generated_images.created_at
+    FROM public.generated_images, query
+    WHERE to_tsvector('english', generated_images.prompt) @@ query.q
+  ),
+  top_hits AS (
+    SELECT hits.*, conversations.type, conversations.title
+    FROM hits
+    JOIN public.conversations ON conversations.id = hits.conversation_id
+    WHERE (conversation_types IS NULL OR conversations.type = ANY(conversation_types))
+      AND (from_date IS NULL OR hits.created_at >= from_date)
+      AND (to_date IS NULL OR hits.created_at < to_date)
+    ORDER BY hits.rank DESC, hits.created_at DESC
+    LIMIT match_count
+  )
+  -- Headlines are the expensive part, so only the returned hits get one
+  SELECT
+    top_hits.conversation_id,
+    top_hits.type,
+    top_hits.title,
+    top_hits.source,
+    top_hits.message_id,
+    ts_headline('english', top_hits.body, query.q, 'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+    top_hits.rank,
+    top_hits.created_at
+  FROM top_hits, query
+  ORDER BY top_hits.rank DESC, top_hits.created_at DESC;
+$$;
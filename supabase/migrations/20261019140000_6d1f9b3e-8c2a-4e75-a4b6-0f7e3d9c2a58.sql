@@ -0,0 +1,147 @@
+-- Folders group conversations by project
+CREATE TABLE public.folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own folders"
+ON public.folders
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own folders"
+ON public.folders
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own folders"
+ON public.folders
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own folders"
+ON public.folders
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_folders_updated_at
+BEFORE UPDATE ON public.folders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deleting a folder leaves its conversations unfiled; archiving is a soft delete that can be restored
+ALTER TABLE public.conversations
+  ADD COLUMN folder_id UUID REFERENCES public.folders(id) ON DELETE SET NULL,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN pinned_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_conversations_folder_id ON public.conversations (folder_id);
+CREATE INDEX idx_conversations_tags ON public.conversations USING gin (tags);
+CREATE INDEX idx_conversations_pinned ON public.conversations (user_id, pinned_at DESC) WHERE pinned_at IS NOT NULL;
+
+-- Archived conversations no longer show up in search
+CREATE OR REPLACE FUNCTION public.search_history(
+  search_query TEXT,
+  conversation_types TEXT[] DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id UUID,
+  conversation_type TEXT,
+  conversation_title TEXT,
+  source TEXT,
+  message_id UUID,
+  snippet TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  hits AS (
+    SELECT
+      conversations.id AS conversation_id,
+      'title' AS source,
+      NULL::UUID AS message_id,
+      coalesce(conversations.title, '') || ' ' || coalesce(conversations.summary, '') AS body,
+      ts_rank(to_tsvector('english', coalesce(conversations.title, '') || ' ' || coalesce(conversations.summary, '')), query.q) AS rank,
+      conversations.updated_at AS created_at
+    FROM public.conversations, query
+    WHERE to_tsvector('english', coalesce(conversations.title, '') || ' ' || coalesce(conversations.summary, '')) @@ query.q
+
+    UNION ALL
+
+    SELECT
+      messages.conversation_id,
+      'message',
+      messages.id,
+      messages.content,
+      ts_rank(to_tsvector('english', messages.content), query.q),
+      messages.created_at
+    FROM public.messages, query
+    WHERE to_tsvector('english', messages.content) @@ query.q
+
+    UNION ALL
+
+    SELECT
+      presentations.conversation_id,
+      'slides',
+      NULL::UUID,
+      presentations.topic || ' ' || public.slides_search_text(presentations.slides),
+      ts_rank(to_tsvector('english', presentations.topic || ' ' || public.slides_search_text(presentations.slides)), query.q),
+      presentations.updated_at
+    FROM public.presentations, query
+    WHERE to_tsvector('english', presentations.topic || ' ' || public.slides_search_text(presentations.slides)) @@ query.q
+      AND presentations.version = (
+        SELECT max(latest.version) FROM public.presentations AS latest
+        WHERE latest.conversation_id = presentations.conversation_id
+      )
+
+    UNION ALL
+
+    SELECT
+      generated_images.conversation_id,
+      'image',
+      NULL::UUID,
+      generated_images.prompt,
+      ts_rank(to_tsvector('english', generated_images.prompt), query.q),
+      generated_images.created_at
+    FROM public.generated_images, query
+    WHERE to_tsvector('english', generated_images.prompt) @@ query.q
+  ),
+  top_hits AS (
+    SELECT hits.*, conversations.type, conversations.title
+    FROM hits
+    JOIN public.conversations ON conversations.id = hits.conversation_id
+    WHERE conversations.archived_at IS NULL
+      AND (conversation_types IS NULL OR conversations.type = ANY(conversation_types))
+      AND (from_date IS NULL OR hits.created_at >= from_date)
+      AND (to_date IS NULL OR hits.created_at < to_date)
+    ORDER BY hits.rank DESC, hits.created_at DESC
+    LIMIT match_count
+  )
+  -- Headlines are the expensive part, so only the returned hits get one
+  SELECT
+    top_hits.conversation_id,
+    top_hits.type,
+    top_hits.title,
+    top_hits.source,
+    top_hits.message_id,
+    ts_headline('english', top_hits.body, query.q, 'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+    top_hits.rank,
+    top_hits.created_at
+  FROM top_hits, query
+  ORDER BY top_hits.rank DESC, top_hits.created_at DESC;
+$$;
@@ -0,0 +1,92 @@
+-- Where an imported conversation came from; the source id lets a repeated import skip what is already here
+ALTER TABLE public.conversations
+  ADD COLUMN imported_from TEXT CHECK (imported_from IN ('chatgpt', 'claude', 'kashif-ai')),
+  ADD COLUMN import_source_id TEXT;
+
+CREATE UNIQUE INDEX idx_conversations_import_source
+  ON public.conversations (user_id, imported_from, import_source_id)
+  WHERE import_source_id IS NOT NULL;
+
+-- Imports keep their original timestamps: both triggers leave updated_at alone while
+-- app.preserve_timestamps is set for the transaction (only import_conversation sets it)
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.preserve_timestamps', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.touch_conversation_on_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.preserve_timestamps', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Inserts one imported chat and its message tree in a single transaction; runs as the caller so RLS applies.
+-- Returns NULL when this source conversation was imported before.
+CREATE OR REPLACE FUNCTION public.import_conversation(conversation JSONB, messages JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF conversation->>'import_source_id' IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.user_id = auth.uid()
+      AND conversations.imported_from = conversation->>'imported_from'
+      AND conversations.import_source_id = conversation->>'import_source_id'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.preserve_timestamps', 'on', true);
+
+  INSERT INTO public.conversations (user_id, title, summary, tags, type, imported_from, import_source_id, created_at, updated_at)
+  VALUES (
+    auth.uid(),
+    coalesce(nullif(conversation->>'title', ''), 'Imported Conversation'),
+    conversation->>'summary',
+    coalesce(ARRAY(SELECT jsonb_array_elements_text(conversation->'tags')), '{}'),
+    'chat',
+    conversation->>'imported_from',
+    conversation->>'import_source_id',
+    (conversation->>'created_at')::timestamptz,
+    (conversation->>'updated_at')::timestamptz
+  )
+  RETURNING id INTO new_id;
+
+  -- Parent links are checked at the end of the statement, so the order of rows doesn't matter
+  INSERT INTO public.messages (id, parent_id, conversation_id, user_id, role, content, files, model, created_at)
+  SELECT
+    (message->>'id')::uuid,
+    (message->>'parent_id')::uuid,
+    new_id,
+    auth.uid(),
+    message->>'role',
+    message->>'content',
+    nullif(message->'files', 'null'::jsonb),
+    message->>'model',
+    (message->>'created_at')::timestamptz
+  FROM jsonb_array_elements(messages) AS message;
+
+  UPDATE public.conversations
+  SET current_leaf_id = (conversation->>'current_leaf_id')::uuid
+  WHERE id = new_id;
+
+  PERFORM set_config('app.preserve_timestamps', 'off', true);
+  RETURN new_id;
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Public read-only links; the token is the only credential, so it is long and random
+CREATE TABLE public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_share_links_conversation_id ON public.share_links (conversation_id, created_at);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share links"
+ON public.share_links
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own share links"
+ON public.share_links
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id = conversation_id
+    AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own share links"
+ON public.share_links
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own share links"
+ON public.share_links
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- The conversation behind the x-share-token request header, if that link is live.
+-- Runs as the owner because visitors can't read share_links themselves.
+CREATE OR REPLACE FUNCTION public.shared_conversation_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT share_links.conversation_id
+  FROM public.share_links
+  WHERE share_links.token = nullif(current_setting('request.headers', true), '')::json->>'x-share-token'
+    AND share_links.revoked_at IS NULL
+    AND (share_links.expires_at IS NULL OR share_links.expires_at > now());
+$$;
+
+-- Read access for link visitors, limited to the one shared conversation
+CREATE POLICY "Anyone can view shared conversations"
+ON public.conversations
+FOR SELECT
+USING (id = (SELECT public.shared_conversation_id()));
+
+CREATE POLICY "Anyone can view shared messages"
+ON public.messages
+FOR SELECT
+USING (conversation_id = (SELECT public.shared_conversation_id()));
+
+CREATE POLICY "Anyone can view shared presentations"
+ON public.presentations
+FOR SELECT
+USING (conversation_id = (SELECT public.shared_conversation_id()));
+
+CREATE POLICY "Anyone can view shared images"
+ON public.generated_images
+FOR SELECT
+USING (conversation_id = (SELECT public.shared_conversation_id()));
+
+CREATE POLICY "Anyone can view shared generated images"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'generated-images'
+  AND EXISTS (
+    SELECT 1 FROM public.generated_images
+    WHERE generated_images.storage_path = objects.name
+    AND generated_images.conversation_id = (SELECT public.shared_conversation_id())
+  )
+);
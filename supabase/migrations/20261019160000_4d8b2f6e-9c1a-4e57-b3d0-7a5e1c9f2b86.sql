@@ -0,0 +1,19 @@
+-- A link can only be revoked or have its expiry changed; moving it to another conversation
+-- or changing its token would expose rows the owner never shared
+DROP POLICY "Users can update their own share links" ON public.share_links;
+
+CREATE POLICY "Users can update their own share links"
+ON public.share_links
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id = conversation_id
+    AND conversations.user_id = auth.uid()
+  )
+);
+
+REVOKE UPDATE ON public.share_links FROM anon, authenticated;
+GRANT UPDATE (revoked_at, expires_at) ON public.share_links TO authenticated;
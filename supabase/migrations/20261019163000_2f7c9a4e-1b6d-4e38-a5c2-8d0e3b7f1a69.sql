@@ -0,0 +1,60 @@
+-- Link visitors see the title and the branch that was on screen, nothing the owner didn't share
+REVOKE SELECT ON public.conversations FROM anon;
+GRANT SELECT (id, type, title, created_at, current_leaf_id) ON public.conversations TO anon;
+
+-- The shared conversation's current branch, walked the way the chat shows it:
+-- the child on the path to current_leaf_id at each level, otherwise the newest
+CREATE OR REPLACE FUNCTION public.shared_branch_message_ids()
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shared_id UUID := public.shared_conversation_id();
+  leaf_id UUID;
+  selected UUID[];
+  parent UUID := NULL;
+  next_id UUID;
+BEGIN
+  IF shared_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT conversations.current_leaf_id INTO leaf_id
+  FROM public.conversations
+  WHERE conversations.id = shared_id;
+
+  WITH RECURSIVE ancestors AS (
+    SELECT messages.id, messages.parent_id
+    FROM public.messages
+    WHERE messages.id = leaf_id AND messages.conversation_id = shared_id
+    UNION ALL
+    SELECT messages.id, messages.parent_id
+    FROM public.messages
+    JOIN ancestors ON messages.id = ancestors.parent_id
+  )
+  SELECT coalesce(array_agg(ancestors.id), '{}') INTO selected FROM ancestors;
+
+  LOOP
+    SELECT messages.id INTO next_id
+    FROM public.messages
+    WHERE messages.conversation_id = shared_id
+      AND messages.parent_id IS NOT DISTINCT FROM parent
+    ORDER BY messages.id = ANY(selected) DESC, messages.created_at DESC
+    LIMIT 1;
+
+    EXIT WHEN next_id IS NULL;
+    RETURN NEXT next_id;
+    parent := next_id;
+  END LOOP;
+END;
+$$;
+
+DROP POLICY "Anyone can view shared messages" ON public.messages;
+
+CREATE POLICY "Anyone can view shared messages"
+ON public.messages
+FOR SELECT
+USING (id IN (SELECT public.shared_branch_message_ids()));